@@ -19,13 +19,15 @@ export class JsonSanitizer implements INodeType {
 		name: 'jsonSanitizer',
 		icon: 'file:JsonSanitizer.svg',
 		group: ['transform'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		description: 'Sanitize, clean, and repair JSON data from various input formats including malformed JSON, escaped strings, and markdown-wrapped JSON',
 		defaults: {
 			name: 'JSON Sanitizer',
 		},
 		inputs: ['main'],
-		outputs: ['main'],
+		// Version 2 adds a Failed output when errors are routed to it
+		outputs: `={{ $parameter.errorHandling === "output" ? [{ "type": "main", "displayName": "Success" }, { "type": "main", "displayName": "Failed" }] : ["main"] }}`,
 		properties: nodeProperties,
 		usableAsTool: true,
 	};
@@ -33,13 +35,12 @@ export class JsonSanitizer implements INodeType {
 	/**
 	 * Execute the JSON Sanitizer node
 	 * @param this - N8N execution context
-	 * @returns Processed data items
+	 * @returns Processed data items for each output
 	 */
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const processor = new NodeProcessor();
 		const items = this.getInputData();
-		const results = await processor.processItems(this, items);
 
-		return [results];
+		return processor.processItems(this, items);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { BinaryDecoder } from '../services/BinaryDecoder';
+
+describe('BinaryDecoder', () => {
+	const decoder = new BinaryDecoder();
+	const json = '{"name": "Zoë"}';
+
+	test('should decode UTF-8 with and without BOM', () => {
+		const plain = Buffer.from(json, 'utf8');
+
+		expect(decoder.decode(plain)).toEqual({ text: json, encoding: 'utf8', hadBOM: false });
+		expect(decoder.decode(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), plain]))).toEqual({
+			text: json,
+			encoding: 'utf8',
+			hadBOM: true,
+		});
+	});
+
+	test('should detect UTF-16LE from the BOM and from the byte pattern', () => {
+		const body = Buffer.from(json, 'utf16le');
+
+		expect(decoder.decode(Buffer.concat([Buffer.from([0xff, 0xfe]), body]))).toMatchObject({
+			text: json,
+			encoding: 'utf16le',
+			hadBOM: true,
+		});
+		expect(decoder.decode(body)).toMatchObject({ text: json, encoding: 'utf16le', hadBOM: false });
+	});
+
+	test('should detect UTF-16BE from the BOM and from the byte pattern', () => {
+		const body = Buffer.from(json, 'utf16le').swap16();
+
+		expect(decoder.decode(Buffer.concat([Buffer.from([0xfe, 0xff]), body]))).toMatchObject({
+			text: json,
+			encoding: 'utf16be',
+			hadBOM: true,
+		});
+		expect(decoder.decode(body)).toMatchObject({ text: json, encoding: 'utf16be' });
+	});
+
+	test('should fall back to Latin-1 for bytes that are not valid UTF-8', () => {
+		expect(decoder.decode(Buffer.from(json, 'latin1'))).toEqual({
+			text: json,
+			encoding: 'latin1',
+			hadBOM: false,
+		});
+	});
+
+	test('should honour an explicit encoding', () => {
+		const utf8 = Buffer.from(json, 'utf8');
+
+		expect(decoder.decode(utf8, 'latin1').text).toBe('{"name": "ZoÃ«"}');
+		expect(decoder.decode(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), utf8]), 'utf8').hadBOM).toBe(true);
+	});
+});
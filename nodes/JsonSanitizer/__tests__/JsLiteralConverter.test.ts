@@ -0,0 +1,57 @@
+import { JsLiteralConverter } from '../services/JsLiteralConverter';
+import { SpecialValuePolicy } from '../types';
+
+describe('JsLiteralConverter', () => {
+	const converter = new JsLiteralConverter();
+	const defaults: SpecialValuePolicy = { nonFiniteNumbers: 'null', undefinedValues: 'omit' };
+	const convert = (input: string, policy = defaults) =>
+		JSON.parse(converter.convert(input, policy));
+
+	test('should accept unquoted, quoted and numeric keys', () => {
+		expect(convert(`{a: 1, 'b': 2, "c": 3, $d_1: 4, 5: 5, true: 6}`)).toEqual({
+			a: 1,
+			b: 2,
+			c: 3,
+			$d_1: 4,
+			5: 5,
+			true: 6,
+		});
+	});
+
+	test('should normalise JavaScript number syntax', () => {
+		expect(converter.convert('[0xff, 0o17, 0b11, 1_000, 10n, .5, 5., +1, -0x10]', defaults)).toBe(
+			'[255, 15, 3, 1000, 10, 0.5, 5.0, 1, -16]',
+		);
+	});
+
+	test('should decode escapes and skip comments', () => {
+		expect(
+			convert(`/* head */ ['\\x41\\u00e9\\u{1F600}', 'tab\\tq\\'', \`multi\nline\`] // tail`),
+		).toEqual(['Aé😀', "tab\tq'", 'multi\nline']);
+	});
+
+	test('should apply the special value policy', () => {
+		expect(convert('[NaN, Infinity, -Infinity, undefined]')).toEqual([null, null, null, null]);
+		expect(
+			convert('{a: NaN, b: -Infinity, c: undefined}', {
+				nonFiniteNumbers: 'string',
+				undefinedValues: 'null',
+			}),
+		).toEqual({ a: 'NaN', b: '-Infinity', c: null });
+		expect(convert('{a: 1, c: undefined}')).toEqual({ a: 1 });
+	});
+
+	test.each([
+		[
+			'{a: Infinity}',
+			{ ...defaults, nonFiniteNumbers: 'error' as const },
+			"'Infinity' at position 4 has no JSON equivalent",
+		],
+		['`${x}`', defaults, 'template literal placeholders cannot be converted'],
+		['{a: b}', defaults, "unsupported identifier 'b'"],
+		["{a: 'x}", defaults, 'unterminated string'],
+		['[1 2]', defaults, "expected ',' but found '2'"],
+	])('should reject %s', (input, policy, message) => {
+		expect(() => converter.convert(input, policy)).toThrow(message);
+	});
+});
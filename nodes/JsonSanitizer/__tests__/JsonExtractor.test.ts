@@ -0,0 +1,94 @@
+import { JsonExtractor } from '../services/JsonExtractor';
+import { JsonSanitizationService } from '../services/JsonSanitizationService';
+
+describe('JsonExtractor', () => {
+	const extractor = new JsonExtractor();
+
+	test('should extract a fenced block surrounded by chatter', () => {
+		const input = 'Sure! Here is the result:\n```json\n{"a": 1}\n```\nLet me know if you need more.';
+		const result = extractor.extract(input, 'first');
+
+		expect(result?.text).toBe('{"a": 1}');
+		expect(result?.info.source).toBe('fence');
+		expect(input.slice(result!.info.start, result!.info.end)).toBe('{"a": 1}');
+	});
+
+	test('should ignore brackets inside string values', () => {
+		const input = 'Result: {"text": "a } or ] inside \\" quotes {"} done';
+		const result = extractor.extract(input, 'first');
+
+		expect(result?.text).toBe('{"text": "a } or ] inside \\" quotes {"}');
+		expect(result?.info.source).toBe('balanced');
+	});
+
+	test('should pick first, largest or last candidate', () => {
+		const input = 'one [1] then {"big": [1, 2, 3]} then {"last": true}';
+
+		expect(extractor.extract(input, 'first')?.text).toBe('[1]');
+		expect(extractor.extract(input, 'largest')?.text).toBe('{"big": [1, 2, 3]}');
+		expect(extractor.extract(input, 'last')?.text).toBe('{"last": true}');
+		expect(extractor.extract(input, 'last')?.info.candidates).toBe(3);
+	});
+
+	test('should prefer valid JSON over balanced prose placeholders', () => {
+		const input = 'Fill in {name} and then use {"name": "x"}';
+
+		expect(extractor.extract(input, 'first')?.text).toBe('{"name": "x"}');
+	});
+
+	test('should skip unbalanced brackets in prose', () => {
+		const input = 'A stray { before the data: [{"id": 1}]';
+
+		expect(extractor.extract(input, 'first')?.text).toBe('[{"id": 1}]');
+	});
+
+	test('should scan unbalanced input once', () => {
+		const unclosed = '{'.repeat(40000);
+
+		expect(extractor.extract(unclosed, 'first')).toBeUndefined();
+		expect(extractor.extract(`${unclosed} then [1] and {"a": [2}`, 'first')?.text).toBe('[1]');
+	});
+
+	test('should return undefined when nothing JSON-like is found or extraction is off', () => {
+		expect(extractor.extract('no json here', 'first')).toBeUndefined();
+		expect(extractor.extract('{"a": 1}', 'none')).toBeUndefined();
+	});
+
+	test('should report extraction offsets through the sanitization service', () => {
+		const service = new JsonSanitizationService();
+		const input = 'Here you go: {"status": "ok"} Hope that helps!';
+		const result = service.sanitize(input, { extraction: 'first' });
+
+		expect(result.parsed).toEqual({ status: 'ok' });
+		expect(result.extraction).toEqual({ strategy: 'first', source: 'balanced', start: 13, end: 29, candidates: 1 });
+	});
+
+	describe('splitDocuments', () => {
+		test('should split NDJSON lines, keeping broken lines as their own document', () => {
+			const documents = extractor.splitDocuments('{"a": 1}\n{"b": \n[2]\n"plain"\r\n');
+
+			expect(documents.map((document) => document.text)).toEqual(['{"a": 1}', '{"b":', '[2]', '"plain"']);
+		});
+
+		test('should split concatenated and pretty-printed values', () => {
+			const documents = extractor.splitDocuments('{"a": {\n  "b": "}"\n}}{"c": 3}, [4]');
+
+			expect(documents.map((document) => document.text)).toEqual(['{"a": {\n  "b": "}"\n}}', '{"c": 3}', '[4]']);
+			expect(documents[1]).toEqual({ text: '{"c": 3}', start: 21, end: 29 });
+		});
+
+		test('should scan unclosed lines once', () => {
+			const lines = '{\n'.repeat(20000);
+			const documents = extractor.splitDocuments(`${lines}[1]`);
+
+			expect(documents).toHaveLength(20001);
+			expect(documents[20000].text).toBe('[1]');
+		});
+
+		test('should split several fenced blocks', () => {
+			const input = 'First:\n```json\n{"a": 1}\n```\nSecond:\n```json\n[1, 2]\n```';
+
+			expect(extractor.splitDocuments(input).map((document) => document.text)).toEqual(['{"a": 1}', '[1, 2]']);
+		});
+	});
+});
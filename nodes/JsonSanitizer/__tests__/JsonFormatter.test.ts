@@ -0,0 +1,60 @@
+import { JsonFormatter } from '../services/JsonFormatter';
+
+describe('JsonFormatter', () => {
+	const formatter = new JsonFormatter();
+	const value = { b: [1, { d: 'x', c: null }], a: 'caf\u00E9', skipped: undefined, empty: {} };
+
+	test('should write pretty output with spaces or tabs', () => {
+		expect(formatter.format(value, { style: 'pretty' })).toBe(JSON.stringify(value, null, 2));
+		expect(formatter.format(value, { style: 'pretty', indent: 4 })).toBe(
+			JSON.stringify(value, null, 4),
+		);
+		expect(formatter.format(value, { style: 'pretty', indent: 'tab' })).toBe(
+			JSON.stringify(value, null, '\t'),
+		);
+	});
+
+	test('should write minified output with sorted keys and ASCII escapes', () => {
+		expect(formatter.format(value, { style: 'minified' })).toBe(JSON.stringify(value));
+		expect(formatter.format(value, { style: 'minified', sortKeys: true, asciiOnly: true })).toBe(
+			'{"a":"caf\\u00e9","b":[1,{"c":null,"d":"x"}],"empty":{}}',
+		);
+		expect(formatter.format({ '\u{1F600}': 1 }, { style: 'minified', asciiOnly: true })).toBe(
+			'{"\\ud83d\\ude00":1}',
+		);
+	});
+
+	test('should write preserved numbers as raw digits', () => {
+		expect(
+			formatter.format({ id: '12345678901234567890', name: '1' }, { style: 'minified' }, ['id']),
+		).toBe('{"id":12345678901234567890,"name":"1"}');
+	});
+
+	test('should produce the RFC 8785 canonical form', () => {
+		const input = JSON.parse(
+			'{"numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001], ' +
+				'"string": "\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/", ' +
+				'"literals": [null, true, false]}',
+		);
+
+		expect(formatter.format(input, { style: 'canonical', indent: 4 })).toBe(
+			'{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+				'"string":"\u20AC$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}',
+		);
+	});
+
+	test('should sort keys by UTF-16 code units', () => {
+		const input = { '\u20AC': 1, '\uD83D\uDE00': 2, '\r': 3, '1': 4, '\u0080': 5, '\u00F6': 6 };
+
+		expect(formatter.canonicalize(input)).toBe(
+			'{"\\r":3,"1":4,"\u0080":5,"\u00F6":6,"\u20AC":1,"\uD83D\uDE00":2}',
+		);
+	});
+
+	test('should fingerprint the canonical form', () => {
+		const fingerprint = formatter.fingerprint({ b: [true], a: 1 });
+
+		expect(fingerprint).toBe('90eddf64b875cb5fa184bb12503cc7309b6ce21b175521a80bd8d83082bae604');
+		expect(formatter.fingerprint(JSON.parse('{ "a": 1.0, "b": [ true ] }'))).toBe(fingerprint);
+	});
+});
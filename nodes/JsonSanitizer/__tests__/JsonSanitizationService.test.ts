@@ -0,0 +1,605 @@
+import { JsonSanitizationService } from '../services/JsonSanitizationService';
+import { TruncationCompleter } from '../services/TruncationCompleter';
+
+describe('JsonSanitizationService', () => {
+	const service = new JsonSanitizationService();
+
+	describe('step toggles', () => {
+		test('should keep comments when comment removal is disabled', () => {
+			const input = '```json\n{"pattern": 1 // keep me\n}\n```';
+			const result = service.sanitize(input, { steps: { removeComments: false } });
+
+			expect(result.cleanedString).toBe('{"pattern": 1 // keep me\n}');
+			expect(result.repairMetadata?.stepsApplied).toEqual(['removeMarkdownFences']);
+		});
+
+		test('should not record disabled steps', () => {
+			const result = service.sanitize('  {"a": 1,}  ', {
+				steps: { trimWhitespace: false, removeMarkdownFences: false },
+			});
+
+			expect(result.cleanedString).toBe('  {"a": 1}  ');
+			expect(result.repairMetadata?.stepsApplied).toEqual(['removeTrailingCommas']);
+		});
+
+		test('should run every step by default', () => {
+			const result = service.sanitize('﻿ ```json\n{"a": 1, /* c */}\n```');
+
+			expect(result.parsed).toEqual({ a: 1 });
+			expect(result.repairMetadata?.stepsApplied).toEqual([
+				'removeBOM',
+				'trimWhitespace',
+				'removeMarkdownFences',
+				'removeTrailingCommas',
+				'removeComments',
+			]);
+		});
+	});
+
+	describe('parser tier toggles', () => {
+		test('should fail instead of repairing when fallbacks are disabled', () => {
+			expect(() =>
+				service.sanitize('{"invalid": json}', { parserTiers: { jsonrepair: false, basic: false } }),
+			).toThrow('Failed to parse JSON after sanitization');
+		});
+
+		test('should report where parsing failed and the error of each tier', () => {
+			let thrown: unknown;
+			try {
+				service.sanitize('{\n  "a": 1,\n  "b": oops\n}', { parserTiers: { jsonrepair: false, basic: false } });
+			} catch (error) {
+				thrown = error;
+			}
+
+			expect((thrown as Error).message).toContain("expected a value but found 'o' at line 3, column 8");
+			expect(thrown).toMatchObject({
+				details: {
+					parseError: { offset: 19, line: 3, column: 8, expected: 'a value', found: "'o'" },
+					tierErrors: [
+						{ tier: 'native', message: expect.any(String) },
+						{ tier: 'controlCharacters', message: expect.any(String) },
+					],
+				},
+			});
+		});
+
+		test('should skip jsonrepair and use basic repair', () => {
+			const result = service.sanitize("{'a': 'b'}", { parserTiers: { jsonrepair: false } });
+
+			expect(result.parsed).toEqual({ a: 'b' });
+			expect(result.repairMetadata?.parserTier).toBe('basic');
+		});
+
+		test('should honour tier toggles in Smart Repair mode', () => {
+			expect(() => service.repair('{a: 1}', { parserTiers: { jsonrepair: false, basic: false } })).toThrow(
+				'Smart Repair mode requires jsonrepair or basic repair to be enabled',
+			);
+			expect(service.repair('{a: 1}', { parserTiers: { jsonrepair: false } }).repairMetadata?.parserTier).toBe(
+				'basic',
+			);
+		});
+	});
+
+	describe('strictness', () => {
+		test('should allow lossless cleanups in strict mode', () => {
+			const result = service.sanitize('\uFEFF```json\n{"amount": "10.00", /* note */}\n```', { strictness: 'strict' });
+
+			expect(result.parsed).toEqual({ amount: '10.00' });
+			expect(result.wasRepaired).toBe(false);
+		});
+
+		test('should refuse lossy repairs in strict mode', () => {
+			expect(() => service.sanitize('{"amount": 10.0', { strictness: 'strict' })).toThrow(
+				'Strict mode refused a lossy repair',
+			);
+			expect(() => service.sanitize('not json at all', { strictness: 'strict' })).toThrow(
+				'Strict mode refused a lossy repair',
+			);
+		});
+
+		test('should not rewrite escaped or control characters in strict mode', () => {
+			expect(service.sanitize('"{\\"a\\": 1}"', { strictness: 'strict' }).parsed).toBe('{"a": 1}');
+			expect(() => service.sanitize('{"a": "line\nbreak"}', { strictness: 'strict' })).toThrow(
+				'Strict mode refused a lossy repair',
+			);
+		});
+
+		test('should escape raw control characters in strings only outside strict mode', () => {
+			const input = '{"a": "line\nbreak"}';
+
+			expect(service.sanitize(input).repairMetadata?.parserTier).toBe('controlCharacters');
+			expect(() => service.sanitize(input, { strictness: 'strict' })).toThrow(
+				expect.objectContaining({
+					details: expect.objectContaining({ tierErrors: [expect.objectContaining({ tier: 'native' })] }),
+				}),
+			);
+		});
+
+		test('should refuse lossy repairs in strict Smart Repair mode', () => {
+			expect(() => service.repair("{'amount': 10}", { strictness: 'strict' })).toThrow(
+				'Strict mode refused a lossy repair',
+			);
+			expect(service.repair('{"amount": 10}', { strictness: 'strict' }).parsed).toEqual({ amount: 10 });
+		});
+
+		test('should extract JSON from prose in aggressive mode', () => {
+			const input = 'Sure! Here is the result: {"a": 1} Let me know if you need more.';
+
+			expect(service.sanitize(input).parsed).not.toEqual({ a: 1 });
+			expect(service.sanitize(input, { strictness: 'aggressive' }).parsed).toEqual({ a: 1 });
+			expect(service.repair(input, { strictness: 'aggressive' }).parsed).toEqual({ a: 1 });
+		});
+
+		test('should repair truncated documents as a whole in aggressive mode', () => {
+			const result = service.sanitize('{"outer": {"inner": 1}, "next": [1, 2', { strictness: 'aggressive' });
+
+			expect(result.extraction).toBeUndefined();
+			expect(result.parsed).toEqual({ outer: { inner: 1 }, next: [1, 2] });
+		});
+	});
+
+	describe('truncation', () => {
+		const input = '```json\n{"status": "ok", "items": [{"id": 1}, {"id": 2, "name": "Wid';
+
+		test('should not scan valid input for truncation', () => {
+			const complete = jest.spyOn(TruncationCompleter.prototype, 'complete');
+
+			expect(service.sanitize('[[1], {"a": [2]}]').parsed).toEqual([[1], { a: [2] }]);
+			expect(complete).not.toHaveBeenCalled();
+			complete.mockRestore();
+		});
+
+		test('should complete truncated input and flag it', () => {
+			const result = service.sanitize(input);
+
+			expect(result.parsed).toEqual({ status: 'ok', items: [{ id: 1 }, { id: 2, name: 'Wid' }] });
+			expect(result.wasTruncated).toBe(true);
+			expect(result.truncation).toEqual({
+				incompletePaths: ['', 'items', 'items.1'],
+				lastValuePartial: true,
+				lastValuePath: 'items.1.name',
+			});
+			expect(result.repairMetadata).toMatchObject({ parserTier: 'truncation', repairMethod: 'truncation' });
+		});
+
+		test('should flag truncation in Smart Repair mode', () => {
+			const result = service.repair("{'items': [1, 2");
+
+			expect(result.parsed).toEqual({ items: [1, 2] });
+			expect(result.wasTruncated).toBe(true);
+			expect(result.truncation?.incompletePaths).toEqual(['', 'items']);
+		});
+
+		test('should not flag complete or otherwise broken input', () => {
+			expect(service.sanitize('{"a": 1}').wasTruncated).toBe(false);
+			expect(service.sanitize('{"a": 1 "b": 2}').wasTruncated).toBe(false);
+		});
+
+		test('should leave truncated input to jsonrepair when completion is disabled', () => {
+			const result = service.sanitize(input, { parserTiers: { truncation: false } });
+
+			expect(result.wasTruncated).toBe(false);
+			expect(result.repairMetadata?.parserTier).toBe('jsonrepair');
+		});
+
+		test('should refuse to complete truncated input in strict mode', () => {
+			expect(() => service.sanitize(input, { strictness: 'strict' })).toThrow('Strict mode refused a lossy repair');
+		});
+	});
+
+	describe('nested decoding', () => {
+		const sqsEvent = JSON.stringify({
+			Records: [
+				{
+					messageId: '1',
+					body: JSON.stringify({ Type: 'Notification', Message: JSON.stringify({ orderId: 7 }) }),
+				},
+			],
+		});
+		const deepDecode = { maxDepth: 3, paths: [] };
+
+		test('should expand stringified JSON at every level', () => {
+			const result = service.sanitize(sqsEvent, { deepDecode });
+
+			expect(result.parsed).toEqual({
+				Records: [{ messageId: '1', body: { Type: 'Notification', Message: { orderId: 7 } } }],
+			});
+			expect(result.expandedPaths).toEqual(['Records.0.body', 'Records.0.body.Message']);
+			expect(JSON.parse(result.cleanedString)).toEqual(result.parsed);
+		});
+
+		test('should stop at the maximum depth', () => {
+			const result = service.sanitize(sqsEvent, { deepDecode: { maxDepth: 1, paths: [] } });
+
+			const parsed = result.parsed as { Records: Array<{ body: { Message: unknown } }> };
+
+			expect(result.expandedPaths).toEqual(['Records.0.body']);
+			expect(typeof parsed.Records[0].body.Message).toBe('string');
+		});
+
+		test('should only decode matching paths', () => {
+			const result = service.sanitize(sqsEvent, { deepDecode: { maxDepth: 3, paths: ['Records.*.body'] } });
+
+			expect(result.expandedPaths).toEqual(['Records.0.body']);
+		});
+
+		test('should leave strings that are not JSON untouched', () => {
+			const input = { note: '[citation needed]', list: '[1, 2]', text: 'plain' };
+			const result = service.sanitize(input, { deepDecode });
+
+			expect(result.parsed).toEqual({ note: '[citation needed]', list: [1, 2], text: 'plain' });
+			expect(result.expandedPaths).toEqual(['list']);
+			expect(input.list).toBe('[1, 2]');
+		});
+
+		test('should not decode nested strings when disabled', () => {
+			expect(service.sanitize(sqsEvent).expandedPaths).toBeUndefined();
+		});
+	});
+
+	describe('Python dialect', () => {
+		const input = "{'name': 'O\\'Brien', 'tags': ('a', 'b'), 'active': True, 'manager': None}";
+		const expected = { name: "O'Brien", tags: ['a', 'b'], active: true, manager: null };
+
+		test('should convert Python literals when selected', () => {
+			const result = service.sanitize(input, { dialect: 'python', strictness: 'strict' });
+
+			expect(result.parsed).toEqual(expected);
+			expect(result.repairMetadata?.stepsApplied).toContain('convertPythonLiteral');
+			expect(result.repairMetadata?.parserTier).toBe('native');
+		});
+
+		test('should detect Python literals automatically', () => {
+			expect(service.sanitize(input, { dialect: 'auto' }).parsed).toEqual(expected);
+			expect(service.repair(input, { dialect: 'auto' }).parsed).toEqual(expected);
+		});
+
+		test('should leave JSON and unrecognised input to the usual pipeline in auto mode', () => {
+			const json = service.sanitize('{"a": 1}', { dialect: 'auto' });
+			const broken = service.sanitize('{"a": 1', { dialect: 'auto' });
+
+			expect(json.repairMetadata?.stepsApplied).toEqual([]);
+			expect(broken.parsed).toEqual({ a: 1 });
+			expect(broken.repairMetadata?.stepsApplied).toEqual([]);
+			expect(broken.repairMetadata?.parserTier).toBe('truncation');
+		});
+
+		test('should fail with the position when the selected dialect does not match', () => {
+			expect(() => service.sanitize('{a: 1}', { dialect: 'python' })).toThrow(
+				"Invalid Python literal at position 1: unsupported name 'a'",
+			);
+		});
+	});
+
+	describe('JSON5 dialect', () => {
+		const input = `{
+			// scraped from a page
+			id: 0x1F,
+			title: 'It\\'s "quoted"',
+			ratio: NaN,
+			limit: -Infinity,
+			body: \`line one
+line two\`,
+			joined: 'first \\
+second',
+			extra: undefined,
+			list: [1, undefined, .5,],
+		}`;
+
+		test('should convert JavaScript literals with the default special value policy', () => {
+			const result = service.sanitize(input, { dialect: 'json5' });
+
+			expect(result.parsed).toEqual({
+				id: 31,
+				title: 'It\'s "quoted"',
+				ratio: null,
+				limit: null,
+				body: 'line one\nline two',
+				joined: 'first second',
+				list: [1, null, 0.5],
+			});
+			expect(result.repairMetadata?.stepsApplied).toContain('convertJsLiteral');
+		});
+
+		test('should map special values as strings and undefined as null', () => {
+			const result = service.sanitize(input, {
+				dialect: 'json5',
+				specialValues: { nonFiniteNumbers: 'string', undefinedValues: 'null' },
+			});
+
+			expect(result.parsed).toMatchObject({ ratio: 'NaN', limit: '-Infinity', extra: null });
+		});
+
+		test('should reject special values when the policy says so, also in auto mode', () => {
+			const specialValues = { nonFiniteNumbers: 'error' } as const;
+
+			expect(() => service.sanitize(input, { dialect: 'json5', specialValues })).toThrow(
+				"'NaN' at position",
+			);
+			expect(() => service.sanitize('{ratio: NaN}', { dialect: 'auto', specialValues })).toThrow(
+				'has no JSON equivalent',
+			);
+		});
+
+		test('should detect JavaScript literals automatically after Python', () => {
+			const result = service.sanitize("{a: 'b', c: true}", { dialect: 'auto' });
+
+			expect(result.parsed).toEqual({ a: 'b', c: true });
+			expect(result.repairMetadata?.stepsApplied).toEqual(['convertJsLiteral']);
+		});
+	});
+
+	describe('lossless numbers', () => {
+		const input = '```json\n{"order_id": 5501234567890123457, "total": "19.99", "price": 19.990000000000000001}\n```';
+
+		test('should keep precision and report the affected paths', () => {
+			const result = service.sanitize(input, { losslessNumbers: true });
+
+			expect(result.parsed).toEqual({
+				order_id: '5501234567890123457',
+				total: '19.99',
+				price: '19.990000000000000001',
+			});
+			expect(result.preservedNumberPaths).toEqual(['order_id', 'price']);
+			expect(result.cleanedString).toContain('5501234567890123457');
+		});
+
+		test('should round as JSON.parse does when disabled', () => {
+			const result = service.sanitize(input);
+
+			expect(result.parsed).toMatchObject({ order_id: 5501234567890124000 });
+			expect(result.preservedNumberPaths).toBeUndefined();
+		});
+
+		test('should keep precision in Smart Repair mode and nested strings', () => {
+			const nested = JSON.stringify({ body: '{"id": 1234567890123456789}' });
+			const repaired = service.repair('{id: 1234567890123456789,}', { losslessNumbers: true });
+			const decoded = service.sanitize(nested, {
+				losslessNumbers: true,
+				deepDecode: { maxDepth: 1, paths: [] },
+			});
+
+			expect(repaired.parsed).toEqual({ id: '1234567890123456789' });
+			expect(decoded.parsed).toEqual({ body: { id: '1234567890123456789' } });
+			expect(decoded.preservedNumberPaths).toEqual(['body.id']);
+			expect(decoded.cleanedString).toBe('{\n  "body": {\n    "id": 1234567890123456789\n  }\n}');
+		});
+	});
+
+	describe('duplicate keys', () => {
+		const input = '{"status": "pending", "status": "done", "items": [{"id": 1, "id": 2}]}';
+
+		test('should not detect duplicates unless a policy is set', () => {
+			const result = service.sanitize(input);
+
+			expect(result.parsed).toEqual({ status: 'done', items: [{ id: 2 }] });
+			expect(result.duplicateKeys).toBeUndefined();
+		});
+
+		test('should report duplicate paths and resolve them with the policy', () => {
+			const last = service.sanitize(input, { duplicateKeys: 'last' });
+			const first = service.sanitize(input, { duplicateKeys: 'first' });
+			const collected = service.repair(input, { duplicateKeys: 'array' });
+
+			expect(last.parsed).toEqual({ status: 'done', items: [{ id: 2 }] });
+			expect(last.cleanedString).toBe(input);
+			expect(last.duplicateKeys).toEqual([
+				{ path: 'status', occurrences: 2 },
+				{ path: 'items.0.id', occurrences: 2 },
+			]);
+			expect(first.parsed).toEqual({ status: 'pending', items: [{ id: 1 }] });
+			expect(JSON.parse(first.cleanedString)).toEqual(first.parsed);
+			expect(collected.parsed).toEqual({ status: ['pending', 'done'], items: [{ id: [1, 2] }] });
+			expect(collected.duplicateKeys).toHaveLength(2);
+		});
+
+		test('should rewrite the cleaned string only when the policy changed the value', () => {
+			const repeated = '{"a": 1, "a": 1}';
+			const first = service.sanitize(input, {
+				duplicateKeys: 'first',
+				format: { style: 'minified' },
+			});
+
+			expect(service.sanitize(repeated, { duplicateKeys: 'first' }).cleanedString).toBe(repeated);
+			expect(first.cleanedString).toBe('{"status":"pending","items":[{"id":1}]}');
+		});
+
+		test('should fail with a validation error under the error policy', () => {
+			expect(() => service.sanitize(input, { duplicateKeys: 'error' })).toThrow(
+				expect.objectContaining({
+					type: 'VALIDATION_ERROR',
+					message: 'Found 2 duplicate key(s): status (2 times), items.0.id (2 times)',
+				}),
+			);
+			expect(() => service.repair("{a: 1, a: 2}", { duplicateKeys: 'error' })).toThrow(
+				expect.objectContaining({ type: 'VALIDATION_ERROR' }),
+			);
+		});
+
+		test('should detect duplicates inside decoded nested strings', () => {
+			const nested = JSON.stringify({ body: '{"a": 1, "a": 2}' });
+			const deepDecode = { maxDepth: 1, paths: [] };
+
+			expect(service.sanitize(nested, { duplicateKeys: 'first', deepDecode })).toMatchObject({
+				parsed: { body: { a: 1 } },
+				duplicateKeys: [{ path: 'body.a', occurrences: 2 }],
+			});
+			expect(() => service.sanitize(nested, { duplicateKeys: 'error', deepDecode })).toThrow(
+				'body.a (2 times)',
+			);
+		});
+	});
+
+	describe('safety limits', () => {
+		test('should reject oversized input before parsing', () => {
+			expect(() => service.sanitize('[1, 2, 3]', { limits: { maxInputBytes: 5 } })).toThrow(
+				expect.objectContaining({ type: 'SAFETY_LIMIT_ERROR' }),
+			);
+			expect(() => service.splitDocuments('{}\n{}', { limits: { maxInputBytes: 4 } })).toThrow(
+				'exceeds the limit of 4 bytes',
+			);
+		});
+
+		test('should enforce structural limits on parsed and already-parsed input', () => {
+			expect(() => service.sanitize({ a: { b: { c: 1 } } }, { limits: { maxDepth: 2 } })).toThrow(
+				"Nesting depth exceeds the limit of 2 at 'a.b'",
+			);
+			expect(() => service.sanitize({ a: [1, 2] }, { limits: { maxArrayLength: 1 } })).toThrow(
+				"Array of 2 items exceeds the limit of 1 at 'a'",
+			);
+		});
+
+		test('should reject deeply nested text before any parser or repair tier runs', () => {
+			const deep = '['.repeat(40000);
+			const limits = { maxDepth: 100 };
+
+			expect(() => service.sanitize(deep, { limits })).toThrow(
+				expect.objectContaining({
+					type: 'SAFETY_LIMIT_ERROR',
+					message: 'Nesting depth exceeds the limit of 100 at offset 100',
+				}),
+			);
+			expect(() => service.repair(deep, { limits })).toThrow('Nesting depth exceeds the limit of 100');
+			expect(() => service.sanitize('[[[1]]]', { limits: { maxDepth: 2 } })).toThrow('at offset 2');
+		});
+
+		test('should strip prototype keys from the parsed value and cleaned string', () => {
+			const result = service.repair('{"__proto__": {"isAdmin": true}, "name": "x",}', {
+				prototypeKeys: 'strip',
+			});
+
+			expect(result.parsed).toEqual({ name: 'x' });
+			expect(result.cleanedString).not.toContain('__proto__');
+			expect(result.strippedKeys).toEqual(['__proto__']);
+		});
+
+		test('should inspect values expanded from nested strings', () => {
+			const nested = JSON.stringify({ body: '{"constructor": {"prototype": 1}, "id": 1}' });
+			const deepDecode = { maxDepth: 1, paths: [] };
+
+			expect(service.sanitize(nested, { deepDecode, prototypeKeys: 'strip' })).toMatchObject({
+				parsed: { body: { id: 1 } },
+				strippedKeys: ['body.constructor'],
+			});
+			expect(() => service.sanitize(nested, { deepDecode, prototypeKeys: 'reject' })).toThrow(
+				"Prototype-polluting key 'constructor' is not allowed at 'body.constructor'",
+			);
+		});
+	});
+
+	describe('typography normalization', () => {
+		const input = '{\u201Cname\u201D:\u00A0\u201CCafe\u0301\u200B\u201D}';
+
+		test('should parse curly-quoted JSON and report the replacements', () => {
+			const result = service.sanitize(input);
+
+			expect(result.parsed).toEqual({ name: 'Cafe\u0301\u200B' });
+			expect(result.repairMetadata?.stepsApplied).toContain('normalizeTypography');
+			expect(result.typography?.replacements.map((replacement) => replacement.codePoint)).toEqual([
+				'U+201C',
+				'U+201D',
+				'U+00A0',
+			]);
+		});
+
+		test('should normalize string values when configured', () => {
+			const result = service.repair(input, {
+				stringValues: { unicodeForm: 'NFC', stripInvisible: true },
+			});
+
+			expect(result.parsed).toEqual({ name: 'Caf\u00E9' });
+			expect(JSON.parse(result.cleanedString)).toEqual(result.parsed);
+			expect(result.typography?.normalizedPaths).toEqual(['name']);
+		});
+
+		test('should not normalize when the step is disabled', () => {
+			expect(() =>
+				service.sanitize(input, { strictness: 'strict', steps: { normalizeTypography: false } }),
+			).toThrow();
+		});
+	});
+
+	describe('output formatting', () => {
+		test('should format string and object input the same way', () => {
+			const format = { style: 'pretty' as const, indent: 'tab' as const, sortKeys: true };
+			const fromString = service.sanitize('{"b": 1,\n  "a": [true]}', { format });
+			const fromObject = service.sanitize({ b: 1, a: [true] }, { format });
+
+			expect(fromString.cleanedString).toBe('{\n\t"a": [\n\t\ttrue\n\t],\n\t"b": 1\n}');
+			expect(fromObject.cleanedString).toBe(fromString.cleanedString);
+		});
+
+		test('should keep the cleaned input by default', () => {
+			expect(service.sanitize('{"b": 1, "a": 2}').cleanedString).toBe('{"b": 1, "a": 2}');
+		});
+
+		test('should keep preserved numbers in formatted output', () => {
+			const result = service.sanitize('{"id": 12345678901234567890}', {
+				losslessNumbers: true,
+				format: { style: 'minified' },
+			});
+
+			expect(result.cleanedString).toBe('{"id":12345678901234567890}');
+		});
+
+		test('should add a fingerprint that ignores key order and formatting', () => {
+			const first = service.sanitize('{"a": 1, "b": [true]}', { fingerprint: true });
+			const second = service.repair("{b: [true], a: 1.0}", {
+				fingerprint: true,
+				format: { style: 'canonical' },
+			});
+
+			expect(first.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+			expect(second.fingerprint).toBe(first.fingerprint);
+			expect(second.cleanedString).toBe('{"a":1,"b":[true]}');
+		});
+	});
+
+	describe('repair diff', () => {
+		test('should describe a repair as edits and a JSON Patch', () => {
+			const result = service.repair('{"items": [1, 2', { diff: true });
+
+			expect(result.repairMetadata?.diff).toEqual({
+				edits: [{ start: 15, end: 15, removed: '', inserted: ']}' }],
+				patch: [],
+			});
+		});
+
+		test('should report the parser fallback edits', () => {
+			const result = service.sanitize('{"a": 1, "b": 2,}', { diff: true });
+
+			expect(result.repairMetadata?.diff?.edits).toEqual([
+				{ start: 15, end: 16, removed: ',', inserted: '' },
+			]);
+		});
+
+		test('should not compute a diff unless requested', () => {
+			expect(service.repair('{"a": 1').repairMetadata?.diff).toBeUndefined();
+		});
+	});
+
+	describe('schema coercion', () => {
+		const schema = {
+			type: 'object',
+			properties: { id: { type: 'integer' }, tags: { type: 'array' }, draft: { default: false } },
+		};
+
+		test('should coerce the parsed value and rewrite the cleaned string', () => {
+			const result = service.sanitize('{"id": "7", "tags": "a"}', { coercion: { schema } });
+
+			expect(result.parsed).toEqual({ id: 7, tags: ['a'], draft: false });
+			expect(JSON.parse(result.cleanedString)).toEqual(result.parsed);
+			expect(result.coercions?.map((coercion) => coercion.action)).toEqual([
+				'coerceType',
+				'coerceType',
+				'fillDefault',
+			]);
+		});
+
+		test('should report an empty list when nothing changed', () => {
+			const result = service.sanitize({ id: 1, tags: [], draft: true }, { coercion: { schema } });
+
+			expect(result.coercions).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,81 @@
+import { JsonSchemaValidator } from '../services/JsonSchemaValidator';
+import { SanitizerError } from '../services/SanitizerError';
+
+describe('JsonSchemaValidator', () => {
+	const schema = {
+		$schema: 'https://json-schema.org/draft/2020-12/schema',
+		type: 'object',
+		required: ['id', 'items'],
+		properties: {
+			id: { type: 'integer', minimum: 1 },
+			email: { type: 'string', format: 'email' },
+			items: { type: 'array', minItems: 1, items: { $ref: '#/$defs/item' } },
+		},
+		additionalProperties: false,
+		$defs: {
+			item: {
+				type: 'object',
+				required: ['sku'],
+				properties: { sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' } },
+			},
+		},
+	};
+
+	test('should return no violations for a valid value', () => {
+		const validator = new JsonSchemaValidator(schema);
+
+		expect(validator.validate({ id: 1, email: 'a@b.co', items: [{ sku: 'ABC-1' }] })).toEqual([]);
+	});
+
+	test('should report every violation with its instance path', () => {
+		const validator = new JsonSchemaValidator(schema);
+		const violations = validator.validate({
+			id: 0,
+			email: 'nope',
+			items: [{ sku: 'abc' }, {}],
+			extra: true,
+		});
+
+		expect(violations.map((v) => [v.instancePath, v.keyword])).toEqual([
+			['/id', 'minimum'],
+			['/email', 'format'],
+			['/items/0/sku', 'pattern'],
+			['/items/1', 'required'],
+			['', 'additionalProperties'],
+		]);
+		expect(violations[3].message).toBe("must have required property 'sku'");
+		expect(violations[2].schemaPath).toBe('#/properties/items/items/$ref/properties/sku/pattern');
+	});
+
+	test('should support draft-07 tuples and definitions', () => {
+		const validator = new JsonSchemaValidator({
+			$schema: 'http://json-schema.org/draft-07/schema#',
+			definitions: { name: { type: 'string' } },
+			type: 'array',
+			items: [{ $ref: '#/definitions/name' }, { type: 'number' }],
+			additionalItems: false,
+		});
+
+		expect(validator.validate(['a', 1])).toEqual([]);
+		expect(validator.validate([1, 'a', null]).map((v) => v.instancePath)).toEqual(['/0', '/1', '/2']);
+	});
+
+	test('should evaluate combinators and conditionals', () => {
+		const validator = new JsonSchemaValidator({
+			oneOf: [{ type: 'string' }, { type: 'number' }],
+			if: { type: 'number' },
+			then: { multipleOf: 5 },
+		});
+
+		expect(validator.validate(10)).toEqual([]);
+		expect(validator.validate(true).map((v) => v.keyword)).toEqual(['oneOf']);
+		expect(validator.validate(7).map((v) => v.keyword)).toEqual(['if', 'multipleOf']);
+	});
+
+	test('should reject invalid schemas and remote references', () => {
+		expect(() => new JsonSchemaValidator('not a schema')).toThrow(SanitizerError);
+		expect(() => new JsonSchemaValidator({ $ref: 'https://example.com/schema.json' }).validate({})).toThrow(
+			'only local references are supported',
+		);
+	});
+});
@@ -0,0 +1,70 @@
+import { JsonTextScanner } from '../services/JsonTextScanner';
+import { sanitizeJSON } from '../utils';
+
+describe('JsonTextScanner', () => {
+	const scanner = new JsonTextScanner();
+
+	describe('string literals are left untouched', () => {
+		const adversarial = [
+			'{"a": "a,}"}',
+			'{"a": "a,]"}',
+			'{"a": "see /* note */"}',
+			'{"a": "https://example.com/path"}',
+			'{"a": "he said \\"// not a comment\\""}',
+			'{"a": "escaped backslash \\\\", "b": "// still a string"}',
+			'{"a": "/* unterminated"}',
+			'{"a": "*/ closing only"}',
+			'{"a": "line one\\n// line two", "b": ",]"}',
+			'["a,", "b,]", ",}"]',
+			'{"a": "\\\\\\"/*"}',
+		];
+
+		test.each(adversarial)('should not change %s', (input) => {
+			expect(scanner.strip(input, { removeComments: true, removeTrailingCommas: true })).toBe(input);
+			expect(JSON.parse(sanitizeJSON(input).cleanedString)).toEqual(JSON.parse(input));
+		});
+
+		test('should keep string state across lines', () => {
+			const input = '{"a": "first line\nsecond // line, }"}';
+
+			expect(scanner.removeComments(input)).toBe(input);
+			expect(scanner.removeTrailingCommas(input)).toBe(input);
+		});
+
+		test('should treat single-quoted values as strings', () => {
+			const input = "{'url': 'http://example.com', 'x': 'a,}'}";
+
+			expect(scanner.strip(input, { removeComments: true, removeTrailingCommas: true })).toBe(input);
+		});
+	});
+
+	describe('comments outside strings', () => {
+		test('should remove line and block comments', () => {
+			expect(scanner.removeComments('{"a": 1, // note\n"b": /* "x" */ 2}')).toBe('{"a": 1, \n"b":  2}');
+		});
+
+		test('should remove comments that contain quotes and slashes', () => {
+			expect(scanner.removeComments('{"a": 1 /* "quoted" // nested */}')).toBe('{"a": 1 }');
+		});
+
+		test('should drop an unterminated block comment to the end of input', () => {
+			expect(scanner.removeComments('{"a": 1} /* trailing')).toBe('{"a": 1} ');
+		});
+
+		test('should keep comments when only trailing commas are removed', () => {
+			expect(scanner.removeTrailingCommas('[1, // last\n]')).toBe('[1 // last\n]');
+		});
+	});
+
+	describe('trailing commas outside strings', () => {
+		test('should remove commas before closing brackets', () => {
+			expect(scanner.removeTrailingCommas('{"a": [1, 2,], "b": {"c": 3 , } ,}')).toBe(
+				'{"a": [1, 2], "b": {"c": 3  } }',
+			);
+		});
+
+		test('should keep commas between values', () => {
+			expect(scanner.removeTrailingCommas('[1, 2, 3]')).toBe('[1, 2, 3]');
+		});
+	});
+});
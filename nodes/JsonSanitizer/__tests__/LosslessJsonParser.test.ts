@@ -0,0 +1,116 @@
+import { LosslessJsonParser } from '../services/LosslessJsonParser';
+
+describe('LosslessJsonParser', () => {
+	const parser = new LosslessJsonParser();
+
+	test('should keep unsafe integers and high-precision decimals as strings', () => {
+		const result = parser.parse(
+			'{"id": 1234567890123456789, "safe": 9007199254740991, "amount": 0.1000000000000000055511, "items": [{"qty": 12345678901234567890}]}',
+		);
+
+		expect(result.value).toEqual({
+			id: '1234567890123456789',
+			safe: 9007199254740991,
+			amount: '0.1000000000000000055511',
+			items: [{ qty: '12345678901234567890' }],
+		});
+		expect(result.preservedPaths).toEqual(['id', 'amount', 'items.0.qty']);
+	});
+
+	test('should treat numbers that survive a round trip as numbers', () => {
+		const result = parser.parse('[10.00, 1.5e3, -0, 0.1, 1e21, 1234.5678e2]');
+
+		expect(result.value).toEqual([10, 1500, -0, 0.1, 1e21, 123456.78]);
+		expect(result.preservedPaths).toEqual([]);
+	});
+
+	test('should preserve numbers outside the double range', () => {
+		expect(parser.parse('[1e400, 1e-400]')).toEqual({
+			value: ['1e400', '1e-400'],
+			preservedPaths: ['0', '1'],
+			duplicateKeys: [],
+		});
+	});
+
+	test('should match JSON.parse for everything else', () => {
+		const input =
+			'{"s": "a\\u00e9\\n\\"b\\"", "t": true, "f": false, "n": null, "__proto__": {"x": 1}}';
+		const value = parser.parse(input).value as Record<string, unknown>;
+
+		expect(value).toEqual(JSON.parse(input));
+		expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+		expect(Object.keys(value)).toContain('__proto__');
+	});
+
+	test.each(['{"a": 1,}', "{'a': 1}", '[01]', '"\t"', '"\\x"', '[1] 2', '{"a" 1}', ''])(
+		'should reject %p like JSON.parse',
+		(input) => {
+			expect(() => JSON.parse(input)).toThrow();
+			expect(() => parser.parse(input)).toThrow('Invalid JSON at position');
+		},
+	);
+
+	test('should report the position and the expected token of a syntax error', () => {
+		expect(() => parser.parse('{"a": 1 "b": 2}')).toThrow(
+			expect.objectContaining({ position: 8, expected: "',' or '}'", found: "'\"'" }),
+		);
+	});
+
+	test('should write preserved numbers back as raw digits', () => {
+		const { value, preservedPaths } = parser.parse(
+			'{"id": 1234567890123456789, "name": "1234567890123456789"}',
+		);
+
+		expect(parser.stringify(value, preservedPaths, 0)).toBe(
+			'{"id":1234567890123456789,"name":"1234567890123456789"}',
+		);
+		expect(parser.stringify({ a: [1, {}], b: [] }, [])).toBe(
+			JSON.stringify({ a: [1, {}], b: [] }, null, 2),
+		);
+	});
+
+	describe('duplicate keys', () => {
+		const input = '{"id": 1, "user": {"name": "a", "name": "b", "name": "c"}, "id": 2}';
+
+		test('should keep the last value by default and report every repeated key', () => {
+			const { value, duplicateKeys } = parser.parse(input);
+
+			expect(value).toEqual(JSON.parse(input));
+			expect(duplicateKeys).toEqual([
+				{ path: 'id', occurrences: 2 },
+				{ path: 'user.name', occurrences: 3 },
+			]);
+		});
+
+		test('should list repeated keys in the order they first appear', () => {
+			const { duplicateKeys } = parser.parse(
+				'{"a": {"x": 1, "y": {"z": 1, "z": 2}, "x": 2}, "b": 1, "a": 2, "b": 2}',
+			);
+
+			expect(duplicateKeys.map((duplicate) => duplicate.path)).toEqual(['a', 'a.x', 'a.y.z', 'b']);
+		});
+
+		test('should keep the first value', () => {
+			expect(parser.parse(input, { duplicateKeys: 'first' }).value).toEqual({
+				id: 1,
+				user: { name: 'a' },
+			});
+		});
+
+		test('should collect every value into an array', () => {
+			const { value } = parser.parse('{"tags": ["x"], "tags": "y", "tags": "z"}', {
+				duplicateKeys: 'array',
+			});
+
+			expect(value).toEqual({ tags: [['x'], 'y', 'z'] });
+		});
+
+		test('should return plain numbers when preservation is off', () => {
+			expect(parser.parse('[1234567890123456789]', { preserveNumbers: false })).toEqual({
+				value: [JSON.parse('1234567890123456789')],
+				preservedPaths: [],
+				duplicateKeys: [],
+			});
+		});
+	});
+});
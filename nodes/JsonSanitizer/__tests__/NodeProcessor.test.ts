@@ -0,0 +1,695 @@
+import { IExecuteFunctions, INodeExecutionData, NodeOperationError } from 'n8n-workflow';
+import { NodeProcessor } from '../services/NodeProcessor';
+
+/**
+ * Binary payloads served by the mocked getBinaryDataBuffer, keyed by "itemIndex:propertyName"
+ */
+const binaryFiles: Record<string, string> = {};
+
+/**
+ * Builds a minimal execution context that serves the given node parameters
+ */
+function createExecuteFunctions(parameters: Record<string, unknown>): IExecuteFunctions {
+	const defaults: Record<string, unknown> = {
+		inputField: 'data',
+		outputMode: 'parsed',
+		outputField: 'sanitized',
+		keepOriginal: false,
+		errorHandling: 'continue',
+	};
+	// A parameter set to undefined is absent, as hidden parameters are in n8n
+	const values = { ...defaults, ...parameters };
+
+	return {
+		getNodeParameter: (name: string, _itemIndex: number, fallback?: unknown) => {
+			if (values[name] !== undefined) return values[name];
+			if (fallback === undefined) throw new Error(`Could not get parameter "${name}"`);
+			return fallback;
+		},
+		getNode: () => ({ name: 'JSON Sanitizer', type: 'jsonSanitizer', typeVersion: 1, parameters: {} }),
+		helpers: {
+			getBinaryDataBuffer: async (itemIndex: number, propertyName: string) =>
+				Buffer.from(binaryFiles[`${itemIndex}:${propertyName}`], 'base64'),
+			prepareBinaryData: async (buffer: Buffer, fileName?: string, mimeType?: string) => ({
+				data: buffer.toString('base64'),
+				fileName,
+				mimeType,
+			}),
+		},
+	} as unknown as IExecuteFunctions;
+}
+
+describe('NodeProcessor', () => {
+	const processor = new NodeProcessor();
+
+	describe('multiple documents', () => {
+		const items: INodeExecutionData[] = [{ json: { data: '{"a": 1}\n{"b": oops\n{"c": 3}' } }];
+
+		test('should emit one item per document with its document index', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ inputMode: 'multiple', outputMode: 'string' }),
+				items,
+			);
+
+			expect(results.map((result) => result.json)).toEqual([
+				{ sanitized: '{"a": 1}', documentIndex: 0 },
+				{ sanitized: '{"b": oops', documentIndex: 1 },
+				{ sanitized: '{"c": 3}', documentIndex: 2 },
+			]);
+			expect(results.every((result) => (result.pairedItem as { item: number }).item === 0)).toBe(true);
+		});
+
+		test('should apply error handling to each failed document separately', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({
+					inputMode: 'multiple',
+					validateSchema: true,
+					jsonSchema: '{"required": ["a"]}',
+				}),
+				[{ json: { data: '{"a": 1}\n{"b": 2}' } }],
+			);
+
+			expect(results[0].json).toEqual({ sanitized: { a: 1 }, documentIndex: 0 });
+			expect(results[1].json.documentIndex).toBe(1);
+			expect(results[1].json.error).toMatchObject({
+				type: 'VALIDATION_ERROR',
+				violations: [{ instancePath: '', keyword: 'required', message: "must have required property 'a'" }],
+			});
+		});
+	});
+
+	describe('failed output', () => {
+		const strict = { strictness: 'strict' };
+
+		test('should route failed items to the second output with their input', async () => {
+			const [succeeded, failed] = await processor.processItems(
+				createExecuteFunctions({ errorHandling: 'output', keepOriginal: true, options: strict }),
+				[{ json: { data: '{"a": 1}' } }, { json: { id: 2, data: '{"a": ' } }],
+			);
+
+			expect(succeeded).toEqual([
+				{ json: { sanitized: { a: 1 }, data: '{"a": 1}' }, pairedItem: { item: 0 } },
+			]);
+			expect(failed).toEqual([
+				{
+					json: {
+						id: 2,
+						data: '{"a": ',
+						error: expect.objectContaining({
+							itemIndex: 1,
+							type: 'JSON_SANITIZATION_ERROR',
+							originalInput: '{"a": ',
+						}),
+					},
+					pairedItem: { item: 1 },
+				},
+			]);
+		});
+
+		test('should report the field path of a failed wildcard match', async () => {
+			const [succeeded, failed] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'items[*]', outputMode: 'repair', errorHandling: 'output' }),
+				[{ json: { items: ['{"a": 1}', 2] } }],
+			);
+
+			expect(succeeded).toEqual([]);
+			expect(failed[0].json.error).toMatchObject({ fieldPath: 'items.1', originalInput: 2 });
+		});
+
+		test('should report the input field of a plain parse failure', async () => {
+			const [, failed] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'body.raw', errorHandling: 'output', options: strict }),
+				[{ json: { body: { raw: '{"a": ' } } }],
+			);
+
+			expect(failed[0].json.error).toMatchObject({
+				type: 'JSON_SANITIZATION_ERROR',
+				fieldPath: 'body.raw',
+				originalInput: '{"a": ',
+			});
+		});
+
+		test('should report the binary property of a failed binary input', async () => {
+			binaryFiles['0:file'] = Buffer.from('{"a": ').toString('base64');
+			const [, failed] = await processor.processItems(
+				createExecuteFunctions({
+					inputSource: 'binary',
+					binaryProperty: 'file',
+					errorHandling: 'output',
+					options: strict,
+				}),
+				[{ json: {}, binary: { file: { data: binaryFiles['0:file'], mimeType: 'application/json' } } }],
+			);
+
+			expect(failed[0].json.error).toMatchObject({ type: 'JSON_SANITIZATION_ERROR', fieldPath: 'file' });
+		});
+
+		test('should report a missing input field as a field extraction error', async () => {
+			const [succeeded, failed] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'body.raw', errorHandling: 'output' }),
+				[{ json: { body: {} } }],
+			);
+
+			expect(succeeded).toEqual([]);
+			expect(failed[0].json.error).toEqual({
+				message: "Field 'body.raw' not found in input data",
+				itemIndex: 0,
+				type: 'FIELD_EXTRACTION_ERROR',
+				fieldPath: 'body.raw',
+			});
+		});
+
+		test('should keep a single output in continue mode', async () => {
+			const outputs = await processor.processItems(createExecuteFunctions({ options: strict }), [
+				{ json: { data: '{"a": ' } },
+			]);
+
+			expect(outputs).toHaveLength(1);
+			expect(outputs[0][0].json).toMatchObject({ sanitized: null, error: { itemIndex: 0 } });
+			expect(outputs[0][0].json.error).not.toHaveProperty('originalInput');
+		});
+	});
+
+	describe('schema validation', () => {
+		test('should stop the workflow with a NodeOperationError listing violations', async () => {
+			const run = processor.processItems(
+				createExecuteFunctions({
+					errorHandling: 'stop',
+					validateSchema: true,
+					jsonSchema: { properties: { id: { type: 'integer' } } },
+				}),
+				[{ json: { data: '{"id": "42"}' } }],
+			);
+
+			await expect(run).rejects.toThrow(NodeOperationError);
+			await expect(run).rejects.toMatchObject({ description: '/id: must be integer' });
+		});
+	});
+
+	describe('parse errors', () => {
+		const items: INodeExecutionData[] = [{ json: { data: '{\n  "a": 1,\n  "b": oops\n}' } }];
+		const options = { strictness: 'strict' };
+
+		test('should add the error location to the error output', async () => {
+			const [[result]] = await processor.processItems(createExecuteFunctions({ options }), items);
+
+			expect(result.json.error).toMatchObject({
+				parseError: { line: 3, column: 8, expected: 'a value', found: "'o'" },
+				tierErrors: [{ tier: 'native' }],
+			});
+		});
+
+		test('should describe the location and the tier errors when stopping', async () => {
+			const run = processor.processItems(createExecuteFunctions({ errorHandling: 'stop', options }), items);
+
+			await expect(run).rejects.toThrow(NodeOperationError);
+			await expect(run).rejects.toMatchObject({
+				description: expect.stringContaining(
+					"Line 3, column 8 (position 19): expected a value but found 'o'\n\n" +
+						'  1 | {\n  2 |   "a": 1,\n> 3 |   "b": oops\n    |        ^',
+				),
+			});
+			await expect(run).rejects.toMatchObject({
+				description: expect.stringContaining('Parser tiers tried:\n- native: '),
+			});
+		});
+	});
+
+	describe('schema coercion', () => {
+		const jsonSchema = JSON.stringify({
+			type: 'object',
+			properties: { count: { type: 'integer' }, status: { enum: ['Open', 'Closed'] } },
+			required: ['count'],
+		});
+
+		test('should coerce before validating and list the coercions', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({
+					outputMode: 'both',
+					validateSchema: true,
+					jsonSchema,
+					coerceToSchema: true,
+					removeAdditionalProperties: true,
+				}),
+				[{ json: { data: '{"count": "3", "status": "open", "debug": true}' } }],
+			);
+
+			expect(results[0].json.sanitized).toMatchObject({
+				parsed: { count: 3, status: 'Open' },
+				coercions: [
+					{ instancePath: '/count', action: 'coerceType', from: '3', to: 3 },
+					{ instancePath: '/status', action: 'matchEnum', from: 'open', to: 'Open' },
+					{ instancePath: '/debug', action: 'removeProperty', from: true },
+				],
+			});
+		});
+
+		test('should still fail values that cannot be coerced', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ validateSchema: true, jsonSchema, coerceToSchema: true }),
+				[{ json: { data: '{"count": "three"}' } }],
+			);
+
+			expect(results[0].json.error).toMatchObject({ type: 'VALIDATION_ERROR' });
+		});
+	});
+
+	describe('typography normalization', () => {
+		test('should report replaced characters and normalized values in the metadata output', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({
+					outputMode: 'both',
+					options: { unicodeNormalization: 'NFKC', stripInvisibleCharacters: true },
+				}),
+				[{ json: { data: '{\u201Ctitle\u201D: \u201C\uFB01le\u200B\u201D}' } }],
+			);
+
+			expect(results[0].json.sanitized).toMatchObject({
+				parsed: { title: 'file' },
+				typography: {
+					replacements: [
+						{ codePoint: 'U+201C', replacement: '"', count: 2 },
+						{ codePoint: 'U+201D', replacement: '"', count: 2 },
+					],
+					normalizedPaths: ['title'],
+				},
+			});
+		});
+	});
+
+	describe('string format', () => {
+		test('should return canonical output with a fingerprint', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({
+					outputMode: 'both',
+					options: { stringFormat: 'canonical', includeFingerprint: true },
+				}),
+				[{ json: { data: '{"b": [true], "a": 1}' } }],
+			);
+
+			expect(results[0].json.sanitized).toMatchObject({
+				cleanedString: '{"a":1,"b":[true]}',
+				fingerprint: '90eddf64b875cb5fa184bb12503cc7309b6ce21b175521a80bd8d83082bae604',
+			});
+		});
+	});
+
+	describe('truncation', () => {
+		test('should report truncation in the metadata output', async () => {
+			const [[result]] = await processor.processItems(createExecuteFunctions({ outputMode: 'both' }), [
+				{ json: { data: '{"summary": "The order was shipped on' } },
+			]);
+
+			expect(result.json.sanitized).toMatchObject({
+				parsed: { summary: 'The order was shipped on' },
+				wasTruncated: true,
+				truncation: { incompletePaths: [''], lastValuePartial: true, lastValuePath: 'summary' },
+			});
+		});
+
+		test('should leave truncation to jsonrepair when Complete Truncated JSON is off', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ outputMode: 'both', options: { completeTruncated: false } }),
+				[{ json: { data: '[1, 2' } }],
+			);
+
+			expect(result.json.sanitized).toMatchObject({ parsed: [1, 2], wasTruncated: false });
+		});
+	});
+
+	describe('repair diff', () => {
+		test('should add the diff to the repair metadata', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ outputMode: 'repair', options: { includeRepairDiff: true } }),
+				[{ json: { data: "{'id': 1" } }],
+			);
+
+			expect(results[0].json.sanitized).toMatchObject({
+				repairMetadata: {
+					diff: {
+						edits: [
+							{ start: 1, end: 2, removed: "'", inserted: '"' },
+							{ start: 4, end: 5, removed: "'", inserted: '"' },
+							{ start: 8, end: 8, removed: '', inserted: '}' },
+						],
+						patch: [{ op: 'add', path: '/id', value: 1 }],
+					},
+				},
+			});
+		});
+	});
+
+	describe('infer schema', () => {
+		const items: INodeExecutionData[] = [
+			{ json: { data: '{"id": 1, "email": "a@example.com",}' } },
+			{ json: { data: '{"id": 2}' } },
+			{ json: { data: '{"id": ' } },
+		];
+
+		test('should not need the hidden output mode parameter', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ operation: 'inferSchema', outputMode: undefined }),
+				[{ json: { data: '{"id": 1}' } }],
+			);
+
+			expect(results[0].json).toMatchObject({ schema: { type: 'object' }, sampleCount: 1 });
+		});
+
+		test('should output one schema item before the errors', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({
+					operation: 'inferSchema',
+					typeName: 'user',
+					outputMode: 'string',
+					options: { strictness: 'strict' },
+				}),
+				items,
+			);
+
+			expect(results).toHaveLength(2);
+			expect(results[0].json).toEqual({
+				schema: {
+					$schema: 'https://json-schema.org/draft/2020-12/schema',
+					type: 'object',
+					properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+					required: ['id'],
+				},
+				typescript: 'export interface User {\n\tid: number;\n\t/** Format: email */\n\temail?: string;\n}\n',
+				sampleCount: 2,
+			});
+			expect(results[0].pairedItem).toEqual([{ item: 0 }, { item: 1 }, { item: 2 }]);
+			expect(results[1].json.error).toMatchObject({ itemIndex: 2 });
+		});
+
+		test('should route failures to the failed output', async () => {
+			const [results, failed] = await processor.processItems(
+				createExecuteFunctions({
+					operation: 'inferSchema',
+					errorHandling: 'output',
+					options: { strictness: 'strict' },
+				}),
+				items,
+			);
+
+			expect(results).toHaveLength(1);
+			expect(results[0].json.sampleCount).toBe(2);
+			expect(failed).toHaveLength(1);
+		});
+	});
+
+	describe('safety limits', () => {
+		test('should strip prototype keys by default before writing the result', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ outputPlacement: 'mergeRoot' }),
+				[{ json: { data: '{"__proto__": {"polluted": true}, "id": 1}' } }],
+			);
+
+			expect(results[0].json).toEqual({ data: '{"__proto__": {"polluted": true}, "id": 1}', id: 1 });
+			expect(Object.getPrototypeOf(results[0].json)).toBe(Object.prototype);
+		});
+
+		test('should keep constructor and prototype keys by default', async () => {
+			const [results] = await processor.processItems(createExecuteFunctions({}), [
+				{ json: { data: '{"constructor": "Car", "prototype": {"id": 1}}' } },
+			]);
+
+			expect(results[0].json).toEqual({ sanitized: { constructor: 'Car', prototype: { id: 1 } } });
+		});
+
+		test('should report limit violations with their own error type', async () => {
+			binaryFiles['0:file'] = Buffer.from('[1, 2, 3]').toString('base64');
+			const [results] = await processor.processItems(
+				createExecuteFunctions({
+					inputSource: 'binary',
+					binaryProperty: 'file',
+					options: { maxInputBytes: 4 },
+				}),
+				[{ json: {}, binary: { file: { data: '', mimeType: 'application/json' } } }],
+			);
+
+			expect(results[0].json.error).toMatchObject({
+				type: 'SAFETY_LIMIT_ERROR',
+				message: 'Input size of 9 bytes exceeds the limit of 4 bytes',
+			});
+		});
+	});
+
+	describe('duplicate keys', () => {
+		const items: INodeExecutionData[] = [{ json: { data: '{"id": 1, "id": 2}' } }];
+
+		test('should report duplicate key paths in the metadata output', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ outputMode: 'both', options: { duplicateKeys: 'first' } }),
+				items,
+			);
+
+			expect(results[0].json.sanitized).toMatchObject({
+				parsed: { id: 1 },
+				duplicateKeys: [{ path: 'id', occurrences: 2 }],
+			});
+		});
+
+		test('should output a validation error under the error policy', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ options: { duplicateKeys: 'error' } }),
+				items,
+			);
+
+			expect(results[0].json.error).toMatchObject({
+				type: 'VALIDATION_ERROR',
+				duplicateKeys: [{ path: 'id', occurrences: 2 }],
+			});
+		});
+	});
+
+	describe('wildcard input fields', () => {
+		test('should sanitize every match in place and keep the structure', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'data.items[*].payload' }),
+				[{ json: { data: { items: [{ id: 1, payload: '{"a": 1,}' }, { id: 2 }, { id: 3, payload: '[1]' }] } } }],
+			);
+
+			expect(results[0].json.sanitized).toEqual([
+				{ id: 1, payload: { a: 1 } },
+				{ id: 2 },
+				{ id: 3, payload: [1] },
+			]);
+		});
+
+		test('should report the path of a value that fails', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'items[*]', outputMode: 'repair' }),
+				[{ json: { items: ['{"a": 1}', 2] } }],
+			);
+
+			expect(results[0].json.error).toMatchObject({
+				message: 'Smart Repair mode requires string input',
+				fieldPath: 'items.1',
+			});
+		});
+
+		test('should pass an empty array through and fail when no element has the field', async () => {
+			const [results] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'items[*].payload' }),
+				[{ json: { items: [] } }, { json: { items: [{ id: 1 }] } }],
+			);
+
+			expect(results[0].json).toEqual({ sanitized: [] });
+			expect(results[1].json.error).toMatchObject({
+				type: 'FIELD_EXTRACTION_ERROR',
+				message: "Field path 'items[*].payload' did not match any values",
+			});
+		});
+	});
+
+	describe('output placement', () => {
+		const item: INodeExecutionData = {
+			json: { id: 7, data: { raw: '{"a": {"b": 1}}', clean: { a: { c: 2 }, keep: true } } },
+		};
+
+		test('should write to a nested named field', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'data.raw', outputField: 'out.value' }),
+				[item],
+			);
+
+			expect(result.json).toEqual({ out: { value: { a: { b: 1 } } } });
+		});
+
+		test('should fail instead of overwriting a primitive on the output path', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ outputField: 'data.parsed', keepOriginal: true }),
+				[{ json: { data: '{"a": 1}' } }],
+			);
+
+			expect(result.json).toEqual({
+				data: '{"a": 1}',
+				error: expect.objectContaining({
+					type: 'FIELD_EXTRACTION_ERROR',
+					message: "Cannot write to 'data.parsed': 'data' is a string",
+				}),
+			});
+		});
+
+		test('should write errors to the same nested field and keep the error when the item has one', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({
+					outputField: 'out.value',
+					keepOriginal: true,
+					options: { strictness: 'strict' },
+				}),
+				[{ json: { data: '{"a": ', error: 'from upstream' } }],
+			);
+
+			expect(result.json).toMatchObject({
+				data: '{"a": ',
+				out: { value: null },
+				error: { itemIndex: 0, type: 'JSON_SANITIZATION_ERROR' },
+			});
+			expect(result.json).not.toHaveProperty(['out.value']);
+		});
+
+		test('should replace the input field without touching the source item', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'data.raw', outputPlacement: 'replaceInput' }),
+				[item],
+			);
+
+			expect(result.json).toEqual({ ...item.json, data: { ...(item.json.data as object), raw: { a: { b: 1 } } } });
+			expect((item.json.data as { raw: unknown }).raw).toBe('{"a": {"b": 1}}');
+		});
+
+		test('should merge object keys into the root', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ inputField: 'data.raw', outputPlacement: 'mergeRoot' }),
+				[item],
+			);
+
+			expect(result.json).toEqual({ ...item.json, a: { b: 1 } });
+		});
+
+		test('should reject merging a non-object into the root', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ outputPlacement: 'mergeRoot' }),
+				[{ json: { data: '[1, 2]' } }],
+			);
+
+			expect(result.json.error).toMatchObject({
+				message: 'Merge Into Root requires an object result, got array',
+			});
+		});
+
+		test('should deep merge into an existing object', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({
+					inputField: 'data.raw',
+					outputPlacement: 'deepMerge',
+					outputField: 'data.clean',
+				}),
+				[item],
+			);
+
+			expect((result.json.data as { clean: unknown }).clean).toEqual({ a: { b: 1, c: 2 }, keep: true });
+		});
+	});
+
+	describe('binary input', () => {
+		test('should decode a UTF-16 file with BOM before sanitizing', async () => {
+			const bytes = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('{"city": "Malmö",}', 'utf16le')]);
+			binaryFiles['0:file'] = bytes.toString('base64');
+
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ inputSource: 'binary', binaryProperty: 'file' }),
+				[{ json: {}, binary: { file: { data: binaryFiles['0:file'], mimeType: 'application/json' } } }],
+			);
+
+			expect(result.json).toEqual({ sanitized: { city: 'Malmö' } });
+		});
+
+		test('should report a missing binary property', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({ inputSource: 'binary', binaryProperty: 'file' }),
+				[{ json: {} }],
+			);
+
+			expect(result.json.error).toMatchObject({
+				message: "Binary property 'file' not found in input data",
+				type: 'FIELD_EXTRACTION_ERROR',
+				fieldPath: 'file',
+			});
+		});
+	});
+
+	describe('binary output', () => {
+		const decode = (result: INodeExecutionData) =>
+			Buffer.from(result.binary?.file.data ?? '', 'base64').toString('utf8');
+
+		test('should write the cleaned JSON as a pretty-printed file', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({
+					outputTarget: 'binary',
+					outputBinaryProperty: 'file',
+					outputFileName: 'clean.json',
+					outputFileFormat: 'pretty',
+				}),
+				[{ json: { data: '{"a": [1, 2],}' } }],
+			);
+
+			expect(result.json).toEqual({});
+			expect(result.binary?.file).toMatchObject({ fileName: 'clean.json', mimeType: 'application/json' });
+			expect(decode(result)).toBe('{\n  "a": [\n    1,\n    2\n  ]\n}');
+		});
+
+		test('should write one line per array element in NDJSON format', async () => {
+			const [[result]] = await processor.processItems(
+				createExecuteFunctions({
+					outputTarget: 'binary',
+					outputBinaryProperty: 'file',
+					outputFileFormat: 'ndjson',
+				}),
+				[{ json: { data: '[{"a": 1}, {"b": 2}]' } }],
+			);
+
+			expect(decode(result)).toBe('{"a":1}\n{"b":2}\n');
+		});
+
+		test('should format the file like the cleaned string, keeping preserved numbers', async () => {
+			const input = '[{"id": 12345678901234567890, "b": 3.14159265358979323846, "a": "é"}]';
+			const write = async (outputFileFormat: string, options: Record<string, unknown>) => {
+				const [[result]] = await processor.processItems(
+					createExecuteFunctions({
+						outputTarget: 'binary',
+						outputBinaryProperty: 'file',
+						outputFileFormat,
+						options: { losslessNumbers: true, ...options },
+					}),
+					[{ json: { data: input } }],
+				);
+				return decode(result);
+			};
+
+			expect(await write('minified', { sortKeys: true, escapeNonAscii: true })).toBe(
+				'[{"a":"\\u00e9","b":3.14159265358979323846,"id":12345678901234567890}]',
+			);
+			expect(await write('ndjson', {})).toBe('{"id":12345678901234567890,"b":3.14159265358979323846,"a":"é"}\n');
+			expect(await write('pretty', { indentWidth: 1 })).toBe(
+				'[\n {\n  "id": 12345678901234567890,\n  "b": 3.14159265358979323846,\n  "a": "é"\n }\n]',
+			);
+			expect(await write('pretty', { stringFormat: 'canonical', losslessNumbers: false })).toBe(
+				'[{"a":"é","b":3.141592653589793,"id":12345678901234567000}]',
+			);
+
+			const [[wildcard]] = await processor.processItems(
+				createExecuteFunctions({
+					inputField: 'items[*]',
+					outputTarget: 'binary',
+					outputBinaryProperty: 'file',
+					outputFileFormat: 'minified',
+					options: { losslessNumbers: true },
+				}),
+				[{ json: { items: ['{"n": 12345678901234567890}', '[98765432109876543210]'] } }],
+			);
+			expect(decode(wildcard)).toBe('[{"n":12345678901234567890},[98765432109876543210]]');
+		});
+	});
+});
@@ -0,0 +1,55 @@
+import { ParseErrorLocator } from '../services/ParseErrorLocator';
+
+describe('ParseErrorLocator', () => {
+	const locator = new ParseErrorLocator();
+
+	test('should report the line, column and expected token', () => {
+		const location = locator.locate('{\n  "a": 1,\n  "b": oops\n}');
+
+		expect(location).toEqual({
+			offset: 19,
+			line: 3,
+			column: 8,
+			expected: 'a value',
+			found: "'o'",
+			snippet: [
+				'  1 | {',
+				'  2 |   "a": 1,',
+				'> 3 |   "b": oops',
+				'    |        ^',
+				'  4 | }',
+			].join('\n'),
+		});
+	});
+
+	test('should report input that ends early', () => {
+		expect(locator.locate('{"a": [1, 2')).toMatchObject({
+			offset: 11,
+			column: 12,
+			expected: "',' or ']'",
+			found: 'end of input',
+		});
+	});
+
+	test('should cut long lines to a window around the error', () => {
+		const items = Array.from({ length: 2000 }, (_, index) => `{"id":${index}}`);
+		items[1500] = '{"id":1500 "x":1}';
+		const text = `[${items.join(',')}]`;
+
+		const location = locator.locate(text);
+
+		expect(location).toMatchObject({ line: 1, expected: "',' or '}'", found: "'\"'" });
+		expect(text[location?.offset ?? 0]).toBe('"');
+		const [line, caret] = location?.snippet.split('\n') ?? [];
+		expect(line.length).toBeLessThan(140);
+		expect(line.slice(caret.indexOf('^'), caret.indexOf('^') + 4)).toBe('"x":');
+	});
+
+	test('should keep tabs so the caret lines up', () => {
+		expect(locator.locate('{\n\t"a" 1\n}')?.snippet.split('\n')[2]).toBe('    | \t    ^');
+	});
+
+	test('should return undefined for valid JSON', () => {
+		expect(locator.locate('{"a": 1}')).toBeUndefined();
+	});
+});
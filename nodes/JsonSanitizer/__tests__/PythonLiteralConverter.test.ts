@@ -0,0 +1,55 @@
+import { PythonLiteralConverter } from '../services/PythonLiteralConverter';
+
+describe('PythonLiteralConverter', () => {
+	const converter = new PythonLiteralConverter();
+	const convert = (input: string) => JSON.parse(converter.convert(input));
+
+	test('should map constants and tuples', () => {
+		expect(convert("{'a': True, 'b': None, 'c': (1, 2), 'd': False}")).toEqual({
+			a: true,
+			b: null,
+			c: [1, 2],
+			d: false,
+		});
+		expect(convert('((1,), (), (2))')).toEqual([[1], [], 2]);
+	});
+
+	test('should keep apostrophes and quotes inside strings', () => {
+		expect(convert(`{'text': "it's", 'quote': 'say "hi"', 'escaped': 'don\\'t'}`)).toEqual({
+			text: "it's",
+			quote: 'say "hi"',
+			escaped: "don't",
+		});
+	});
+
+	test('should decode escapes, triple-quoted, raw and adjacent strings', () => {
+		expect(convert(`['line\\nbreak', '\\x41\\u00e9\\101', '''a 'quoted'\nblock''', r'C:\\temp', 'ab' "cd"]`)).toEqual([
+			'line\nbreak',
+			'AéA',
+			"a 'quoted'\nblock",
+			'C:\\temp',
+			'abcd',
+		]);
+	});
+
+	test('should normalise Python number syntax', () => {
+		expect(converter.convert('[1_000, 0x1F, 0o17, 0b101, .5, 5., -3e2, +7]')).toBe(
+			'[1000, 31, 15, 5, 0.5, 5.0, -3e2, 7]',
+		);
+	});
+
+	test('should convert sets and non-string keys', () => {
+		expect(convert('{1: {2, 3}, None: [], True: {}}')).toEqual({ 1: [2, 3], null: [], true: {} });
+	});
+
+	test.each([
+		['{"a": inf}', "'inf' has no JSON equivalent"],
+		['[1j]', 'complex numbers have no JSON equivalent'],
+		['{a: 1}', "unsupported name 'a'"],
+		["['open", 'unterminated string'],
+		['[1, 2', "expected ',' before end of input"],
+		['{(1, 2): 3}', 'dict keys must be strings, numbers or constants'],
+	])('should reject %s', (input, message) => {
+		expect(() => converter.convert(input)).toThrow(message);
+	});
+});
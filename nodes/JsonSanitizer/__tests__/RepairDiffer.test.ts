@@ -0,0 +1,70 @@
+import { RepairDiffer } from '../services/RepairDiffer';
+
+describe('RepairDiffer', () => {
+	const differ = new RepairDiffer();
+
+	describe('diffText', () => {
+		test('should report each changed span with offsets into the original', () => {
+			expect(differ.diffText("{'a': 1, b: 2,}", '{"a": 1, "b": 2}')).toEqual([
+				{ start: 1, end: 2, removed: "'", inserted: '"' },
+				{ start: 3, end: 4, removed: "'", inserted: '"' },
+				{ start: 9, end: 9, removed: '', inserted: '"' },
+				{ start: 10, end: 10, removed: '', inserted: '"' },
+				{ start: 13, end: 14, removed: ',', inserted: '' },
+			]);
+		});
+
+		test('should report nothing for identical strings', () => {
+			expect(differ.diffText('{"a": 1}', '{"a": 1}')).toEqual([]);
+		});
+
+		test('should report removed prose as one span', () => {
+			expect(differ.diffText('Result: [1]', '[1]')).toEqual([
+				{ start: 0, end: 8, removed: 'Result: ', inserted: '' },
+			]);
+		});
+	});
+
+	describe('diffValues', () => {
+		test('should produce add, remove and replace operations', () => {
+			const patch = differ.diffValues(
+				{ 'a/b': 1, 'c~d': [1, 2, 3], gone: true, same: { x: 1 } },
+				{ 'a/b': '1', 'c~d': [1], same: { x: 1 }, added: null },
+			);
+
+			expect(patch).toEqual([
+				{ op: 'remove', path: '/gone' },
+				{ op: 'replace', path: '/a~1b', value: '1' },
+				{ op: 'remove', path: '/c~0d/2' },
+				{ op: 'remove', path: '/c~0d/1' },
+				{ op: 'add', path: '/added', value: null },
+			]);
+		});
+
+		test('should replace the root when the kind of value changes', () => {
+			expect(differ.diffValues([1], { 0: 1 })).toEqual([
+				{ op: 'replace', path: '', value: { 0: 1 } },
+			]);
+		});
+	});
+
+	describe('diff', () => {
+		test('should patch from the readable prefix of truncated input', () => {
+			const input = '{"a": 1, "b": "cut';
+			const diff = differ.diff(input, '{"a": 1, "b": "cut"}', input);
+
+			expect(diff.edits).toEqual([{ start: 18, end: 18, removed: '', inserted: '"}' }]);
+			expect(diff.patch).toEqual([{ op: 'add', path: '/b', value: 'cut' }]);
+		});
+
+		test('should close open brackets when reading the prefix', () => {
+			expect(differ.diff('{a: 1}', '{"a": 1}', '{a: 1}').patch).toEqual([
+				{ op: 'add', path: '/a', value: 1 },
+			]);
+		});
+
+		test('should omit the patch when no prefix can be read', () => {
+			expect(differ.diff('oops', '"oops"', 'oops').patch).toBeUndefined();
+		});
+	});
+});
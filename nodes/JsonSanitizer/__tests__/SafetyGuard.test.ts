@@ -0,0 +1,73 @@
+import { SafetyGuard } from '../services/SafetyGuard';
+
+describe('SafetyGuard', () => {
+	const guard = new SafetyGuard();
+
+	test('should reject input above the size limit', () => {
+		expect(() => guard.checkInputSize(11, { maxInputBytes: 10 })).toThrow(
+			expect.objectContaining({
+				type: 'SAFETY_LIMIT_ERROR',
+				message: 'Input size of 11 bytes exceeds the limit of 10 bytes',
+			}),
+		);
+		expect(() => guard.checkInputSize(10, { maxInputBytes: 10 })).not.toThrow();
+		expect(() => guard.checkInputSize(11, { maxInputBytes: 0 })).not.toThrow();
+	});
+
+	test('should check the bracket depth of text outside strings', () => {
+		expect(() => guard.checkTextDepth('{"a": [{"b": 1}]}', { maxDepth: 2 })).toThrow(
+			expect.objectContaining({
+				type: 'SAFETY_LIMIT_ERROR',
+				message: 'Nesting depth exceeds the limit of 2 at offset 7',
+			}),
+		);
+		expect(() => guard.checkTextDepth('{"a": "[[{\\"[", "b": [1]} [2]', { maxDepth: 2 })).not.toThrow();
+		expect(() => guard.checkTextDepth('[[[', { maxDepth: 0 })).not.toThrow();
+	});
+
+	test.each([
+		[{ maxDepth: 2 }, { a: { b: { c: 1 } } }, "Nesting depth exceeds the limit of 2 at 'a.b'"],
+		[
+			{ maxKeys: 2 },
+			{ a: { x: 1, y: 2, z: 3 } },
+			"Object with 3 keys exceeds the limit of 2 at 'a'",
+		],
+		[{ maxArrayLength: 2 }, [1, 2, 3], 'Array of 3 items exceeds the limit of 2 at the root'],
+	])('should enforce %p', (limits, value, message) => {
+		expect(() => guard.inspect(value, limits)).toThrow(message);
+	});
+
+	test('should return the same value when nothing is stripped', () => {
+		const value = { a: [1, { b: 2 }], constructor: 'x' };
+		const clean = { a: [1, { b: 2 }] };
+
+		expect(guard.inspect(value, { maxDepth: 3 }).value).toBe(value);
+		expect(guard.inspect(clean, {}, 'strip')).toEqual({ value: clean, strippedKeys: [] });
+		expect(guard.inspect(clean, {}, 'strip').value).toBe(clean);
+	});
+
+	test('should strip prototype keys without touching the input', () => {
+		const value = JSON.parse('{"a": [{"__proto__": {"admin": true}, "ok": 1}], "constructor": {}}');
+		const { value: guarded, strippedKeys } = guard.inspect(value, {}, 'strip');
+
+		expect(guarded).toEqual({ a: [{ ok: 1 }] });
+		expect(strippedKeys).toEqual(['a.0.__proto__', 'constructor']);
+		expect(Object.keys(value.a[0])).toContain('__proto__');
+	});
+
+	test('should strip only __proto__ keys with the stripProto policy', () => {
+		const value = JSON.parse('{"__proto__": {"admin": true}, "constructor": "Car", "prototype": 1}');
+		const { value: guarded, strippedKeys } = guard.inspect(value, {}, 'stripProto');
+
+		expect(guarded).toEqual({ constructor: 'Car', prototype: 1 });
+		expect(strippedKeys).toEqual(['__proto__']);
+	});
+
+	test('should reject prototype keys', () => {
+		const value = JSON.parse('{"user": {"prototype": 1}}');
+
+		expect(() => guard.inspect(value, {}, 'reject')).toThrow(
+			"Prototype-polluting key 'prototype' is not allowed at 'user.prototype'",
+		);
+	});
+});
@@ -0,0 +1,92 @@
+import { SchemaCoercer } from '../services/SchemaCoercer';
+
+describe('SchemaCoercer', () => {
+	test.each([
+		[{ type: 'integer' }, '42', 42],
+		[{ type: 'integer' }, '4.5', '4.5'],
+		[{ type: 'number' }, ' -1.5e3 ', -1500],
+		[{ type: 'boolean' }, 'TRUE', true],
+		[{ type: 'boolean' }, 0, false],
+		[{ type: 'string' }, 12345, '12345'],
+		[{ type: ['integer', 'null'] }, 'null', null],
+		[{ type: 'array' }, { a: 1 }, [{ a: 1 }]],
+		[{ enum: ['Active', 'Inactive'] }, ' active', 'Active'],
+		[{ type: 'string', format: 'date' }, '2024-03-05T23:30:00Z', '2024-03-05'],
+		[{ type: 'string', format: 'date-time' }, 1700000000, '2023-11-14T22:13:20.000Z'],
+		[{ type: 'string', format: 'date-time' }, 'not a date', 'not a date'],
+		[{ type: 'string', format: 'date' }, '12', '12'],
+		[{ type: 'string', format: 'date-time' }, 'March 5, 2024', 'March 5, 2024'],
+		[{ type: 'string', format: 'date-time' }, '2024-03-05', '2024-03-05T00:00:00.000Z'],
+	])('should coerce with %j: %j -> %j', (schema, value, expected) => {
+		expect(new SchemaCoercer(schema).coerce(value).value).toEqual(expected);
+	});
+
+	test('should report every change with its JSON Pointer', () => {
+		const coercer = new SchemaCoercer({
+			type: 'object',
+			properties: {
+				items: { type: 'array', items: { $ref: '#/$defs/item' } },
+				'a/b': { type: 'number' },
+			},
+			$defs: {
+				item: {
+					type: 'object',
+					properties: { qty: { type: 'integer' }, unit: { type: 'string', default: 'pcs' } },
+				},
+			},
+		});
+
+		expect(coercer.coerce({ items: [{ qty: '2' }], 'a/b': '1' })).toEqual({
+			value: { items: [{ qty: 2, unit: 'pcs' }], 'a/b': 1 },
+			coercions: [
+				{ instancePath: '/items/0/qty', action: 'coerceType', from: '2', to: 2 },
+				{ instancePath: '/items/0/unit', action: 'fillDefault', to: 'pcs' },
+				{ instancePath: '/a~1b', action: 'coerceType', from: '1', to: 1 },
+			],
+		});
+	});
+
+	test('should remove undeclared properties only when asked', () => {
+		const schema = {
+			type: 'object',
+			properties: { id: { type: 'integer' } },
+			patternProperties: { '^x-': { type: 'string' } },
+		};
+		const value = { id: 1, 'x-trace': 'abc', extra: true };
+
+		expect(new SchemaCoercer(schema).coerce(value)).toEqual({ value, coercions: [] });
+		expect(new SchemaCoercer(schema).coerce(value, { removeAdditional: true })).toEqual({
+			value: { id: 1, 'x-trace': 'abc' },
+			coercions: [{ instancePath: '/extra', action: 'removeProperty', from: true }],
+		});
+	});
+
+	test('should not mutate the input or share defaults between results', () => {
+		const coercer = new SchemaCoercer({
+			properties: { count: { type: 'integer' }, tags: { default: [] } },
+		});
+		const input = { count: '1' };
+
+		const first = coercer.coerce(input).value as { tags: string[] };
+		first.tags.push('changed');
+
+		expect(input).toEqual({ count: '1' });
+		expect(coercer.coerce({}).value).toEqual({ tags: [] });
+	});
+
+	test('should leave numbers preserved by the lossless parser alone', () => {
+		const coercer = new SchemaCoercer({ properties: { id: { type: 'integer' } } });
+
+		expect(
+			coercer.coerce({ id: '12345678901234567890' }, { preservedPaths: ['id'] }).coercions,
+		).toEqual([]);
+	});
+
+	test('should reject circular references', () => {
+		const coercer = new SchemaCoercer({ $ref: '#' });
+
+		expect(() => coercer.coerce(1)).toThrow(
+			'JSON Schema is nested too deeply or contains a circular $ref',
+		);
+	});
+});
@@ -0,0 +1,84 @@
+import { SchemaInferrer } from '../services/SchemaInferrer';
+
+describe('SchemaInferrer', () => {
+	const inferrer = new SchemaInferrer();
+
+	test('should mark properties missing from some objects as optional', () => {
+		const schema = inferrer.infer([
+			{ id: 1, name: 'a', tags: ['x'] },
+			{ id: 2, tags: [] },
+		]);
+
+		expect(schema).toEqual({
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			type: 'object',
+			properties: {
+				id: { type: 'integer' },
+				name: { type: 'string' },
+				tags: { type: 'array', items: { type: 'string' } },
+			},
+			required: ['id', 'tags'],
+		});
+	});
+
+	test('should merge different types into a union', () => {
+		const schema = inferrer.infer([{ v: 1 }, { v: 1.5 }, { v: null }, { v: 'x' }]);
+
+		expect(schema.properties?.v).toEqual({ type: ['string', 'number', 'null'] });
+	});
+
+	test.each([
+		['2024-03-05T10:00:00Z', 'date-time'],
+		['2024-03-05', 'date'],
+		['jane@example.com', 'email'],
+		['https://example.com/a?b=c', 'uri'],
+		['123e4567-e89b-12d3-a456-426614174000', 'uuid'],
+		['192.168.0.1', 'ipv4'],
+	])('should detect the format of %j as %s', (value, format) => {
+		expect(inferrer.infer([value])).toMatchObject({ type: 'string', format });
+	});
+
+	test('should drop the format when strings disagree', () => {
+		expect(inferrer.infer(['2024-03-05', 'note:x'])).not.toHaveProperty('format');
+	});
+
+	test('should write interfaces for nested objects', () => {
+		const schema = inferrer.infer([
+			{
+				id: 1,
+				'created-at': '2024-03-05T10:00:00Z',
+				address: { city: 'Oslo' },
+				lines: [{ qty: 1 }],
+			},
+			{ id: 2, 'created-at': '2024-03-06T10:00:00Z', address: null, lines: [], note: 'x' },
+		]);
+
+		expect(inferrer.toTypeScript(schema, 'order')).toBe(
+			[
+				'export interface Order {',
+				'\tid: number;',
+				'\t/** Format: date-time */',
+				'\t"created-at": string;',
+				'\taddress: OrderAddress | null;',
+				'\tlines: OrderLinesItem[];',
+				'\tnote?: string;',
+				'}',
+				'',
+				'export interface OrderAddress {',
+				'\tcity: string;',
+				'}',
+				'',
+				'export interface OrderLinesItem {',
+				'\tqty: number;',
+				'}',
+				'',
+			].join('\n'),
+		);
+	});
+
+	test('should declare a type alias for non-object roots', () => {
+		const schema = inferrer.infer([[1, 'a'], []]);
+
+		expect(inferrer.toTypeScript(schema, '')).toBe('export type Item = Array<string | number>;\n');
+	});
+});
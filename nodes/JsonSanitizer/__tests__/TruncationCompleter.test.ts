@@ -0,0 +1,89 @@
+import { TruncationCompleter } from '../services/TruncationCompleter';
+
+describe('TruncationCompleter', () => {
+	const completer = new TruncationCompleter();
+
+	test.each([
+		['{"items": [{"name": "Wid', '{"items": [{"name": "Wid"}]}'],
+		['{"a": 1, "b": [1, 2', '{"a": 1, "b": [1, 2]}'],
+		['{"a": 1, "b": [1, 2.', '{"a": 1, "b": [1, 2]}'],
+		['{"a": 1, "b": [1, -', '{"a": 1, "b": [1]}'],
+		['{"a": 1, "ok": tr', '{"a": 1, "ok": true}'],
+		['{"a": 1, "b', '{"a": 1}'],
+		['{"a": 1, "b":', '{"a": 1}'],
+		['[1, 2, ', '[1, 2]'],
+		['{"a": {', '{"a": {}}'],
+		['{"a": "x\\', '{"a": "x"}'],
+		['{"a": "x\\u00', '{"a": "x"}'],
+		['{"a": "x\\\\', '{"a": "x\\\\"}'],
+		['{"a": "two words ', '{"a": "two words "}'],
+	])('should complete %j', (input, expected) => {
+		const completion = completer.complete(input);
+
+		expect(completion?.text).toBe(expected);
+		expect(() => JSON.parse(completion?.text ?? '')).not.toThrow();
+	});
+
+	test('should report the open paths and the partial value', () => {
+		expect(completer.complete('{"order": {"lines": [{"sku": "A1"}, {"sku": "B')?.report).toEqual({
+			incompletePaths: ['', 'order', 'order.lines', 'order.lines.1'],
+			lastValuePartial: true,
+			lastValuePath: 'order.lines.1.sku',
+		});
+	});
+
+	test('should read single-quoted and unquoted keys for the paths', () => {
+		const completion = completer.complete("{'a': [{b: 'x");
+
+		expect(completion?.text).toBe("{'a': [{b: 'x'}]}");
+		expect(completion?.report).toEqual({
+			incompletePaths: ['', 'a', 'a.0'],
+			lastValuePartial: true,
+			lastValuePath: 'a.0.b',
+		});
+	});
+
+	test('should report a finished literal as partial', () => {
+		expect(completer.complete('{"a": 1, "ok": tr')?.report).toEqual({
+			incompletePaths: [''],
+			lastValuePartial: true,
+			lastValuePath: 'ok',
+		});
+	});
+
+	test.each([
+		['{"a": 1, "na', 'na'],
+		['{"a": 1, b', 'b'],
+		['{"a": [{"b": 1}], "c": ', 'c'],
+		['{"a": [1, -', 'a.1'],
+	])('should report the entry dropped from %j', (input, droppedPath) => {
+		expect(completer.complete(input)?.report).toMatchObject({ lastValuePartial: false, droppedPath });
+	});
+
+	test('should not mark values that were complete as partial', () => {
+		expect(completer.complete('{"a": [true, "x"')?.report).toEqual({
+			incompletePaths: ['', 'a'],
+			lastValuePartial: false,
+		});
+		expect(completer.complete('[1, null, ')?.report).toEqual({
+			incompletePaths: [''],
+			lastValuePartial: false,
+		});
+	});
+
+	test('should complete deep nesting and list only the outermost paths', () => {
+		const depth = 50000;
+		const completion = completer.complete('['.repeat(depth));
+
+		expect(completion?.text).toBe('['.repeat(depth) + ']'.repeat(depth));
+		expect(completion?.report.incompletePaths).toHaveLength(100);
+		expect(completion?.report.incompletePaths[99]).toBe(Array(99).fill(0).join('.'));
+	});
+
+	test.each(['{"a": 1}', '{"a": 1}]', '"text', 'plain text', '[1, 2] [3'])(
+		'should leave %j alone',
+		(input) => {
+			expect(completer.complete(input)).toBeUndefined();
+		},
+	);
+});
@@ -0,0 +1,83 @@
+import { TypographyNormalizer } from '../services/TypographyNormalizer';
+
+describe('TypographyNormalizer', () => {
+	const normalizer = new TypographyNormalizer();
+
+	describe('normalizeStructure', () => {
+		test('should convert curly quotes used as delimiters and keep apostrophes inside', () => {
+			const { text, replacements } = normalizer.normalizeStructure(
+				'{\u201Cname\u201D: \u201CJohn\u2019s\u201D, \u2018tags\u2019: [\u2018a\u2019]}',
+			);
+
+			expect(JSON.parse(text)).toEqual({ name: 'John\u2019s', tags: ['a'] });
+			expect(replacements).toEqual([
+				{ character: '\u201C', codePoint: 'U+201C', replacement: '"', count: 2 },
+				{ character: '\u201D', codePoint: 'U+201D', replacement: '"', count: 2 },
+				{ character: '\u2018', codePoint: 'U+2018', replacement: '"', count: 2 },
+				{ character: '\u2019', codePoint: 'U+2019', replacement: '"', count: 2 },
+			]);
+		});
+
+		test('should escape ASCII quotes inside converted strings', () => {
+			const { text } = normalizer.normalizeStructure('{\u201Cq\u201D: \u201Csay "hi"\u201D}');
+
+			expect(JSON.parse(text)).toEqual({ q: 'say "hi"' });
+		});
+
+		test('should replace Unicode spaces and remove invisible characters between tokens', () => {
+			const { text, replacements } = normalizer.normalizeStructure(
+				'{\u200B"a":\u00A01,\u2028"b": 2\uFEFF}',
+			);
+
+			expect(text).toBe('{"a": 1,\n"b": 2}');
+			expect(replacements.map((replacement) => replacement.codePoint)).toEqual([
+				'U+200B',
+				'U+00A0',
+				'U+2028',
+				'U+FEFF',
+			]);
+		});
+
+		test('should leave string literals and comments unchanged', () => {
+			const input = '{"a": "\u201Cx\u201D\u00A0\u200B", \'b\': \'\u2018\'} // \u201Cnote\u201D';
+
+			expect(normalizer.normalizeStructure(input)).toEqual({ text: input, replacements: [] });
+		});
+
+		test('should leave a curly quote without a closing quote on the same line', () => {
+			const input = '{"a": \u201Copen,\n"b": 1}';
+
+			expect(normalizer.normalizeStructure(input).text).toBe(input);
+		});
+	});
+
+	describe('normalizeValues', () => {
+		test('should apply Unicode normalization to string values only', () => {
+			const value = { 'Cafe\u0301': ['e\u0301', '\uFF21', 1], ok: 'plain' };
+
+			expect(normalizer.normalizeValues(value, { unicodeForm: 'NFC' })).toEqual({
+				value: { 'Cafe\u0301': ['\u00E9', '\uFF21', 1], ok: 'plain' },
+				changedPaths: ['Cafe\u0301.0'],
+			});
+			expect(normalizer.normalizeValues(value, { unicodeForm: 'NFKC' }).value).toEqual({
+				'Cafe\u0301': ['\u00E9', 'A', 1],
+				ok: 'plain',
+			});
+		});
+
+		test('should strip invisible characters but keep zero-width joiners', () => {
+			const value = { a: 'x\u200By\u00ADz', b: '\u{1F469}\u200D\u{1F4BB}' };
+
+			expect(normalizer.normalizeValues(value, { stripInvisible: true })).toEqual({
+				value: { a: 'xyz', b: '\u{1F469}\u200D\u{1F4BB}' },
+				changedPaths: ['a'],
+			});
+		});
+
+		test('should return the input when nothing changes', () => {
+			const value = { a: ['b'] };
+
+			expect(normalizer.normalizeValues(value, { unicodeForm: 'NFC' }).value).toBe(value);
+		});
+	});
+});
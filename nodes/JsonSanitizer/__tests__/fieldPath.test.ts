@@ -0,0 +1,102 @@
+import { matchesFieldPath, parseFieldPath, resolveFieldPath, setFieldValue } from '../services/fieldPath';
+
+describe('fieldPath', () => {
+	describe('parseFieldPath', () => {
+		test('should parse dot, bracket and quoted segments', () => {
+			expect(parseFieldPath(`items[0].headers["x.request.id"]['it\\'s']`)).toEqual([
+				{ type: 'key', key: 'items' },
+				{ type: 'key', key: '0' },
+				{ type: 'key', key: 'headers' },
+				{ type: 'key', key: 'x.request.id' },
+				{ type: 'key', key: "it's" },
+			]);
+		});
+
+		test('should parse wildcards in both notations', () => {
+			expect(parseFieldPath('items[*].payload')).toEqual(parseFieldPath('items.*.payload'));
+			expect(parseFieldPath('[*]')).toEqual([{ type: 'wildcard' }]);
+		});
+
+		test.each(['', 'a.', 'a..b', 'a[b]', 'a[0]b', 'a["b"', 'a.[0]'])('should reject %p', (path) => {
+			expect(() => parseFieldPath(path)).toThrow(`Field path '${path}' is invalid`);
+		});
+	});
+
+	describe('resolveFieldPath', () => {
+		const data = {
+			items: [{ payload: '{"a": 1}' }, { other: true }, { payload: '[2]' }],
+			'a.b': { c: 'dotted' },
+		};
+
+		test('should resolve a single value', () => {
+			expect(resolveFieldPath(data, 'items[2].payload')).toEqual({
+				matches: [{ path: ['items', 2, 'payload'], value: '[2]' }],
+			});
+			expect(resolveFieldPath(data, '["a.b"].c').matches[0].value).toBe('dotted');
+		});
+
+		test('should collect wildcard matches and skip branches without the field', () => {
+			const resolution = resolveFieldPath(data, 'items[*].payload');
+
+			expect(resolution.matches.map((match) => match.path)).toEqual([
+				['items', 0, 'payload'],
+				['items', 2, 'payload'],
+			]);
+			expect(resolution.wildcardScope).toEqual({ path: ['items'], value: data.items });
+			expect(resolution.skippedBranches).toBe(1);
+		});
+
+		test('should select nothing from an empty wildcard scope without skipping branches', () => {
+			expect(resolveFieldPath({ items: [], map: {} }, 'items[*].payload')).toEqual({
+				matches: [],
+				wildcardScope: { path: ['items'], value: [] },
+			});
+			expect(resolveFieldPath({ items: [{ tags: [] }] }, 'items[*].tags[*]').skippedBranches).toBeUndefined();
+		});
+
+		test('should report where a path without wildcards breaks', () => {
+			expect(() => resolveFieldPath(data, 'items[1].other.x')).toThrow(
+				"Field path 'items[1].other.x' is invalid: 'items.1.other' is not an object",
+			);
+			expect(() => resolveFieldPath(data, 'missing[*]')).toThrow("'missing' resolves to undefined");
+		});
+	});
+
+	describe('setFieldValue', () => {
+		test('should create missing and null parents', () => {
+			const target: Record<string, unknown> = { a: null };
+			setFieldValue(target, ['a', 'b'], 1);
+			setFieldValue(target, ['c', 0], 2);
+
+			expect(target).toEqual({ a: { b: 1 }, c: { 0: 2 } });
+		});
+
+		test('should not overwrite a primitive parent', () => {
+			const target = { data: '{"raw": true}' };
+
+			expect(() => setFieldValue(target, ['data', 'parsed'], {})).toThrow(
+				expect.objectContaining({
+					type: 'FIELD_EXTRACTION_ERROR',
+					message: "Cannot write to 'data.parsed': 'data' is a string",
+				}),
+			);
+			expect(target.data).toBe('{"raw": true}');
+		});
+
+		test.each([['__proto__', 'polluted'], ['a', 'constructor', 'prototype']])(
+			'should reject prototype keys in %p',
+			(...segments) => {
+				const target = {};
+
+				expect(() => setFieldValue(target, segments, true)).toThrow('is not allowed in a field path');
+				expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+				expect(target).toEqual({});
+			},
+		);
+	});
+
+	test('matchesFieldPath should treat * as any single segment', () => {
+		expect(matchesFieldPath('Records.*.body', ['Records', 3, 'body'])).toBe(true);
+		expect(matchesFieldPath('Records.*.body', ['Records', 3, 'body', 'Message'])).toBe(false);
+	});
+});
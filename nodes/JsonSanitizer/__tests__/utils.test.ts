@@ -309,4 +309,51 @@ describe('sanitizeJSON', () => {
 			});
 		});
 	});
-});
\ No newline at end of file
+
+	describe('repair metadata', () => {
+		test('should report no changes for valid JSON', () => {
+			const result = sanitizeJSON('{"a": 1}');
+
+			expect(result.wasRepaired).toBe(false);
+			expect(result.repairMetadata).toMatchObject({
+				repairMethod: 'none',
+				parserTier: 'native',
+				stepsApplied: [],
+				errorsFound: [],
+			});
+			expect(result.repairMetadata?.originalParseError).toBeUndefined();
+		});
+
+		test('should record the cleaning steps that changed the string', () => {
+			const result = sanitizeJSON('```json\n{"a": 1,}\n```');
+
+			expect(result.repairMetadata).toMatchObject({
+				wasRepaired: false,
+				repairMethod: 'sanitization',
+				parserTier: 'native',
+				stepsApplied: ['removeMarkdownFences', 'removeTrailingCommas'],
+			});
+			expect(result.repairMetadata?.originalParseError).toEqual(expect.any(String));
+		});
+
+		test('should record the parser tier that rescued the input', () => {
+			const result = sanitizeJSON('{"invalid": json}');
+
+			expect(result.wasRepaired).toBe(true);
+			expect(result.repairMetadata).toMatchObject({ repairMethod: 'jsonrepair', parserTier: 'jsonrepair' });
+			expect(result.repairMetadata?.errorsFound).toHaveLength(1);
+			expect(result.repairMetadata?.errorsFound[0]).toMatch(/^native: /);
+		});
+
+		test('should describe Smart Repair results', () => {
+			const result = repairJSON("{'name': 'John'}");
+
+			expect(result.repairMetadata).toMatchObject({
+				wasRepaired: true,
+				repairMethod: 'jsonrepair',
+				originalLength: 16,
+				repairedLength: 16,
+			});
+		});
+	});
+});
@@ -9,15 +9,174 @@ import { INodeProperties } from 'n8n-workflow';
  * Node properties configuration with comprehensive validation and descriptions
  */
 export const nodeProperties: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		options: [
+			{
+				name: 'Sanitize',
+				value: 'sanitize',
+				description: 'Clean, repair and parse the JSON of every item',
+				action: 'Sanitize JSON',
+			},
+			{
+				name: 'Infer Schema',
+				value: 'inferSchema',
+				description: 'Sanitize every item and output one item with the JSON Schema and TypeScript types that describe them all',
+				action: 'Infer schema and types',
+			},
+		],
+		default: 'sanitize',
+	},
+	{
+		displayName: 'Input Source',
+		name: 'inputSource',
+		type: 'options',
+		options: [
+			{
+				name: 'JSON Field',
+				value: 'json',
+				description: 'Read the input from a field of the item',
+			},
+			{
+				name: 'Binary Property',
+				value: 'binary',
+				description: 'Read the input from a binary property, such as an uploaded file or a downloaded HTTP response',
+			},
+		],
+		default: 'json',
+		description: 'Where the JSON to sanitize is read from',
+	},
 	{
 		displayName: 'Input Field',
 		name: 'inputField',
 		type: 'string',
 		default: 'json',
 		required: true,
-		description: 'The field containing the JSON string or object to sanitize. Supports dot notation for nested fields (e.g., "data.body.content").',
+		description: 'The field containing the JSON string or object to sanitize. Supports dot and bracket notation (e.g., "data.body.content", "items[0].body", \'headers["x.key"]\'). Use [*] to sanitize every element in place (e.g., "items[*].payload"); an empty array or object is passed through unchanged.',
 		placeholder: 'e.g., json, data, body.content, response.data',
 		noDataExpression: false,
+		displayOptions: {
+			show: {
+				inputSource: ['json'],
+			},
+		},
+	},
+	{
+		displayName: 'Binary Property',
+		name: 'binaryProperty',
+		type: 'string',
+		default: 'data',
+		required: true,
+		description: 'The name of the binary property holding the JSON file',
+		placeholder: 'e.g., data, attachment_0',
+		displayOptions: {
+			show: {
+				inputSource: ['binary'],
+			},
+		},
+	},
+	{
+		displayName: 'Encoding',
+		name: 'binaryEncoding',
+		type: 'options',
+		options: [
+			{
+				name: 'Auto-Detect',
+				value: 'auto',
+				description: 'Detect the encoding from the byte order mark or the byte pattern, falling back to Latin-1 for invalid UTF-8',
+			},
+			{
+				name: 'Latin-1 (ISO-8859-1)',
+				value: 'latin1',
+			},
+			{
+				name: 'UTF-16BE',
+				value: 'utf16be',
+			},
+			{
+				name: 'UTF-16LE',
+				value: 'utf16le',
+			},
+			{
+				name: 'UTF-8',
+				value: 'utf8',
+			},
+		],
+		default: 'auto',
+		description: 'The text encoding of the binary data',
+		displayOptions: {
+			show: {
+				inputSource: ['binary'],
+			},
+		},
+	},
+	{
+		displayName: 'Input Mode',
+		name: 'inputMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Single Document',
+				value: 'single',
+				description: 'The input field holds one JSON document and produces one output item',
+			},
+			{
+				name: 'Multiple Documents',
+				value: 'multiple',
+				description: 'Split NDJSON / JSON Lines, concatenated JSON values or several fenced blocks into one output item per document',
+			},
+		],
+		default: 'single',
+		description: 'Whether the input field may contain several JSON documents. Each output item gets a "documentIndex" field, and documents that fail are handled one at a time according to Error Handling.',
+	},
+	{
+		displayName: 'Extract Embedded JSON',
+		name: 'extractionMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Off',
+				value: 'none',
+				description: 'Treat the whole input as JSON (only fences at the very start and end are removed)',
+			},
+			{
+				name: 'First Match',
+				value: 'first',
+				description: 'Use the first JSON object, array or fenced block found in the text',
+			},
+			{
+				name: 'Largest Match',
+				value: 'largest',
+				description: 'Use the longest JSON object, array or fenced block found in the text',
+			},
+			{
+				name: 'Last Match',
+				value: 'last',
+				description: 'Use the last JSON object, array or fenced block found in the text',
+			},
+		],
+		default: 'none',
+		displayOptions: {
+			show: {
+				inputMode: ['single'],
+			},
+		},
+		description: 'Whether to pull JSON out of surrounding prose, such as LLM replies with explanations before or after the data. The character offsets of the extracted JSON are reported in the metadata output modes.',
+	},
+	{
+		displayName: 'Type Name',
+		name: 'typeName',
+		type: 'string',
+		default: 'Item',
+		description: 'Name of the root TypeScript type. Nested objects get interfaces named after their path, such as "ItemAddress".',
+		displayOptions: {
+			show: {
+				operation: ['inferSchema'],
+			},
+		},
 	},
 	{
 		displayName: 'Output Mode',
@@ -47,6 +206,72 @@ export const nodeProperties: INodeProperties[] = [
 		],
 		default: 'parsed',
 		description: 'Choose how the sanitized JSON should be returned. "Smart Repair" is best for malformed or broken JSON.',
+		displayOptions: {
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
+	},
+	{
+		displayName: 'Output Target',
+		name: 'outputTarget',
+		type: 'options',
+		options: [
+			{
+				name: 'JSON Field',
+				value: 'json',
+				description: 'Write the result into the item JSON',
+			},
+			{
+				name: 'Binary File',
+				value: 'binary',
+				description: 'Write the sanitized JSON as a file, e.g. for S3, FTP or email attachments',
+			},
+		],
+		default: 'json',
+		description: 'Whether the result is written into the item JSON or as a binary file',
+		displayOptions: {
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
+	},
+	{
+		displayName: 'Output Placement',
+		name: 'outputPlacement',
+		type: 'options',
+		options: [
+			{
+				name: 'Named Field',
+				value: 'field',
+				description: 'Write the result to the output field (dot paths such as "data.clean" create nested objects)',
+			},
+			{
+				name: 'Replace Input Field',
+				value: 'replaceInput',
+				description: 'Write the result in place of the input field, keeping the rest of the item',
+			},
+			{
+				name: 'Merge Into Root',
+				value: 'mergeRoot',
+				description: 'Spread the keys of the resulting object onto the root of the item',
+			},
+			{
+				name: 'Deep Merge Into Field',
+				value: 'deepMerge',
+				description: 'Recursively merge the result into the existing object at the output field, keeping keys it does not set',
+			},
+		],
+		default: 'field',
+		description: 'Where the result is written in the output item',
+		displayOptions: {
+			show: {
+				outputTarget: ['json'],
+			},
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
 	},
 	{
 		displayName: 'Output Field Name',
@@ -54,9 +279,81 @@ export const nodeProperties: INodeProperties[] = [
 		type: 'string',
 		default: 'sanitized',
 		required: true,
-		description: 'The field name where the sanitized result will be stored in the output',
-		placeholder: 'e.g., sanitized, cleanJson, result',
+		description: 'The field where the sanitized result will be stored in the output. Supports dot notation for nested fields (e.g., "data.clean").',
+		placeholder: 'e.g., sanitized, cleanJson, data.clean',
 		noDataExpression: false,
+		displayOptions: {
+			show: {
+				outputTarget: ['json'],
+				outputPlacement: ['field', 'deepMerge'],
+			},
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
+	},
+	{
+		displayName: 'Output Binary Property',
+		name: 'outputBinaryProperty',
+		type: 'string',
+		default: 'data',
+		required: true,
+		description: 'The name of the binary property to write the file to',
+		displayOptions: {
+			show: {
+				outputTarget: ['binary'],
+			},
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
+	},
+	{
+		displayName: 'File Name',
+		name: 'outputFileName',
+		type: 'string',
+		default: 'sanitized.json',
+		description: 'The file name of the output file',
+		displayOptions: {
+			show: {
+				outputTarget: ['binary'],
+			},
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
+	},
+	{
+		displayName: 'File Format',
+		name: 'outputFileFormat',
+		type: 'options',
+		options: [
+			{
+				name: 'Pretty-Printed',
+				value: 'pretty',
+				description: 'Indented as set by Indent Width (two spaces by default)',
+			},
+			{
+				name: 'Minified',
+				value: 'minified',
+				description: 'Without any whitespace',
+			},
+			{
+				name: 'NDJSON',
+				value: 'ndjson',
+				description: 'One line per array element (a single line for other values)',
+			},
+		],
+		default: 'pretty',
+		description: 'How the JSON is laid out in the file',
+		displayOptions: {
+			show: {
+				outputTarget: ['binary'],
+			},
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
 	},
 	{
 		displayName: 'Keep Original Data',
@@ -64,11 +361,69 @@ export const nodeProperties: INodeProperties[] = [
 		type: 'boolean',
 		default: false,
 		description: 'Whether to preserve all original input fields in the output alongside the sanitized result',
+		displayOptions: {
+			show: {
+				outputPlacement: ['field'],
+			},
+			hide: {
+				operation: ['inferSchema'],
+			},
+		},
+	},
+	{
+		displayName: 'Validate Against JSON Schema',
+		name: 'validateSchema',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to validate the parsed result against a JSON Schema (draft-07 or draft 2020-12). Items that do not match fail with a VALIDATION_ERROR listing every violation.',
+	},
+	{
+		displayName: 'JSON Schema',
+		name: 'jsonSchema',
+		type: 'json',
+		default: '{\n  "type": "object",\n  "properties": {},\n  "required": []\n}',
+		required: true,
+		description: 'The JSON Schema the parsed result must match. Only local $ref references (e.g. "#/$defs/item") are supported.',
+		displayOptions: {
+			show: {
+				validateSchema: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Coerce Types to Schema',
+		name: 'coerceToSchema',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to convert the parsed result to the types the schema declares before validating it: strings such as "42" or "true" become numbers and booleans, single values become arrays, enum values are matched case-insensitively, dates are rewritten in the declared format and missing properties get their defaults. Every change is listed as "coercions" in the metadata output modes.',
+		displayOptions: {
+			show: {
+				validateSchema: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Remove Undeclared Properties',
+		name: 'removeAdditionalProperties',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to remove object properties that the schema does not declare in "properties" or "patternProperties"',
+		displayOptions: {
+			show: {
+				validateSchema: [true],
+				coerceToSchema: [true],
+			},
+		},
 	},
 	{
 		displayName: 'Error Handling',
 		name: 'errorHandling',
 		type: 'options',
+		displayOptions: {
+			show: {
+				'@version': [1],
+			},
+		},
 		options: [
 			{
 				name: 'Stop Workflow',
@@ -84,4 +439,450 @@ export const nodeProperties: INodeProperties[] = [
 		default: 'stop',
 		description: 'How to handle cases where JSON sanitization fails. "Continue" mode adds error details to output.',
 	},
-];
\ No newline at end of file
+	{
+		displayName: 'Error Handling',
+		name: 'errorHandling',
+		type: 'options',
+		displayOptions: {
+			show: {
+				'@version': [{ _cnd: { gte: 2 } }],
+			},
+		},
+		options: [
+			{
+				name: 'Stop Workflow',
+				value: 'stop',
+				description: 'Stop the entire workflow execution if sanitization fails for any item',
+			},
+			{
+				name: 'Continue with Error Info',
+				value: 'continue',
+				description: 'Continue processing and include error information in the output for failed items',
+			},
+			{
+				name: 'Route to Failed Output',
+				value: 'output',
+				description: 'Continue processing and send failed items with their error details to a separate Failed output',
+			},
+		],
+		default: 'stop',
+		description: 'How to handle cases where JSON sanitization fails. "Continue" mode adds error details to output, "Route to Failed Output" adds a second output for failed items.',
+	},
+	{
+		displayName: 'Options',
+		name: 'options',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		description: 'Fine-tune which sanitization steps and parser fallbacks run. Every step is enabled by default.',
+		options: [
+			{
+				displayName: 'Complete Truncated JSON',
+				name: 'completeTruncated',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to close the strings, arrays and objects of input that was cut off, such as an LLM reply that hit its token limit. Completed results are flagged with "wasTruncated", and the metadata output modes list the incomplete paths so the workflow can retry instead of trusting partial data.',
+			},
+			{
+				displayName: 'Decode Nested JSON Strings',
+				name: 'decodeNested',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to walk the parsed result and expand string fields that hold stringified JSON (e.g. SQS or EventBridge "body" and "Message" fields). Expanded paths are listed in the metadata output modes.',
+			},
+			{
+				displayName: 'Decode Paths',
+				name: 'decodePaths',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. body, body.Message, Records.*.body',
+				description: 'Comma-separated dot-notation paths of the fields to decode ("*" matches any key or index). Leave empty to decode every JSON-looking string. Only used with Decode Nested JSON Strings.',
+			},
+			{
+				displayName: 'Duplicate Keys',
+				name: 'duplicateKeys',
+				type: 'options',
+				options: [
+					{
+						name: 'Collect Into Array',
+						value: 'array',
+						description: 'Replace the key\'s value with an array of every value it was given',
+					},
+					{
+						name: 'Fail',
+						value: 'error',
+						description: 'Fail the item with a validation error listing the duplicate keys',
+					},
+					{
+						name: 'Keep First',
+						value: 'first',
+						description: 'Keep the first value and ignore later ones',
+					},
+					{
+						name: 'Keep Last',
+						value: 'last',
+						description: 'Keep the last value, as JSON.parse does',
+					},
+				],
+				default: 'last',
+				description: 'How to resolve keys that appear more than once in the same object. Adding this option turns on duplicate detection; the paths of repeated keys are reported in the Both and Smart Repair output modes.',
+			},
+			{
+				displayName: 'Escape Control Characters',
+				name: 'escapeControlCharacters',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to retry parsing with raw newlines and tabs escaped when the cleaned string is not valid JSON',
+			},
+			{
+				displayName: 'Escape Non-ASCII Characters',
+				name: 'escapeNonAscii',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to write every non-ASCII character in the cleaned string as a \\uXXXX escape. Only used with the Pretty and Minified string formats.',
+			},
+			{
+				displayName: 'Include Repair Diff',
+				name: 'includeRepairDiff',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to add a diff of the repair to the repair metadata: the character spans that were removed or inserted in the original input, and an RFC 6902 JSON Patch from the part of the input that could be read as JSON to the repaired result',
+			},
+			{
+				displayName: 'Include SHA-256 Fingerprint',
+				name: 'includeFingerprint',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to add the SHA-256 digest of the canonical (RFC 8785) form of the result to the metadata output modes. Documents that differ only in key order or formatting get the same fingerprint, which is useful for deduplication and signing.',
+			},
+			{
+				displayName: 'Indent Width',
+				name: 'indentWidth',
+				type: 'number',
+				default: 2,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 10,
+				},
+				description: 'Spaces per indentation level. Only used with the Pretty string format and Pretty-Printed files.',
+			},
+			{
+				displayName: 'Indent With Tabs',
+				name: 'indentWithTabs',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to indent with tabs instead of spaces. Only used with the Pretty string format and Pretty-Printed files.',
+			},
+			{
+				displayName: 'Input Dialect',
+				name: 'inputDialect',
+				type: 'options',
+				options: [
+					{
+						name: 'Auto-Detect',
+						value: 'auto',
+						description: 'Convert input that is not valid JSON when it parses as a Python or JavaScript literal',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Treat input as JSON',
+					},
+					{
+						name: 'JSON5 / JavaScript Literal',
+						value: 'json5',
+						description: 'Convert JavaScript object literals with unquoted keys, single-quoted or template strings, comments, hex numbers, NaN, Infinity and undefined to JSON',
+					},
+					{
+						name: 'Python Literal',
+						value: 'python',
+						description: "Convert Python literals such as {'a': True, 'b': None, 'c': (1, 2)} to JSON",
+					},
+				],
+				default: 'json',
+				description: 'The syntax of string input. Python and JavaScript literals are tokenized properly, so apostrophes inside strings are kept.',
+			},
+			{
+				displayName: 'Max Array Length',
+				name: 'maxArrayLength',
+				type: 'number',
+				default: 1000000,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Most items allowed in a single array. Larger arrays fail the item with a safety limit error. 0 disables the limit.',
+			},
+			{
+				displayName: 'Max Decode Depth',
+				name: 'maxDecodeDepth',
+				type: 'number',
+				default: 3,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'How many levels of stringified JSON to expand. Only used with Decode Nested JSON Strings.',
+			},
+			{
+				displayName: 'Max Input Bytes',
+				name: 'maxInputBytes',
+				type: 'number',
+				default: 52428800,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Largest input accepted, in bytes (default 50 MB). Larger inputs fail the item with a safety limit error before they are parsed. 0 disables the limit.',
+			},
+			{
+				displayName: 'Max Keys Per Object',
+				name: 'maxKeysPerObject',
+				type: 'number',
+				default: 10000,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Most keys allowed in a single object. Larger objects fail the item with a safety limit error. 0 disables the limit.',
+			},
+			{
+				displayName: 'Max Nesting Depth',
+				name: 'maxNestingDepth',
+				type: 'number',
+				default: 100,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Deepest nesting of objects and arrays allowed (the root is level 1). Deeper values fail the item with a safety limit error. 0 disables the limit.',
+			},
+			{
+				displayName: 'Non-Finite Numbers',
+				name: 'nonFiniteNumbers',
+				type: 'options',
+				options: [
+					{
+						name: 'Convert to Null',
+						value: 'null',
+					},
+					{
+						name: 'Convert to String',
+						value: 'string',
+						description: 'Write "NaN", "Infinity" or "-Infinity"',
+					},
+					{
+						name: 'Fail',
+						value: 'error',
+					},
+				],
+				default: 'null',
+				description: 'How NaN and Infinity are mapped by the JSON5 / JavaScript Literal dialect',
+			},
+			{
+				displayName: 'Normalize Line Endings',
+				name: 'normalizeLineEndings',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to convert Windows (\\r\\n) and old Mac (\\r) line endings to \\n',
+			},
+			{
+				displayName: 'Normalize Typography',
+				name: 'normalizeTypography',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to replace curly quotes used as JSON delimiters, non-breaking and other Unicode spaces, Unicode line separators and zero-width characters between tokens. String contents are left unchanged. Replacements are listed in the metadata output modes.',
+			},
+			{
+				displayName: 'Preserve Number Precision',
+				name: 'losslessNumbers',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to keep integers above 2^53 (e.g. Snowflake or order IDs) and high-precision decimals as strings with their original digits instead of rounding them. Affected paths are listed in the metadata output modes.',
+			},
+			{
+				displayName: 'Prototype Keys',
+				name: 'prototypeKeys',
+				type: 'options',
+				options: [
+					{
+						name: 'Reject',
+						value: 'reject',
+						description: 'Fail the item with a safety limit error',
+					},
+					{
+						name: 'Strip',
+						value: 'strip',
+						description: 'Remove the keys and list their paths in the metadata output modes',
+					},
+					{
+						name: 'Strip Proto Key Only',
+						value: 'stripProto',
+						description: 'Remove only "__proto__" keys, keeping "constructor" and "prototype" as ordinary data',
+					},
+				],
+				default: 'stripProto',
+				description: 'What to do with "__proto__", "constructor" and "prototype" keys, which can pollute object prototypes when the result is merged into other objects',
+			},
+			{
+				displayName: 'Remove BOM',
+				name: 'removeBOM',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to strip a leading byte order mark',
+			},
+			{
+				displayName: 'Remove Comments',
+				name: 'removeComments',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to remove // and /* */ comments found outside string values',
+			},
+			{
+				displayName: 'Remove Trailing Commas',
+				name: 'removeTrailingCommas',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to remove commas directly before a closing } or ]',
+			},
+			{
+				displayName: 'Repair Strictness',
+				name: 'strictness',
+				type: 'options',
+				options: [
+					{
+						name: 'Strict',
+						value: 'strict',
+						description: 'Only lossless cleanups (BOM, fences, whitespace, comments, trailing commas). Raw control characters inside strings are not escaped, and input that needs a lossy repair goes down the error path.',
+					},
+					{
+						name: 'Tolerant',
+						value: 'tolerant',
+						description: 'Lossless cleanups plus the jsonrepair and basic repair fallbacks',
+					},
+					{
+						name: 'Aggressive',
+						value: 'aggressive',
+						description: 'Tolerant, plus JSON is automatically extracted from surrounding prose',
+					},
+				],
+				default: 'tolerant',
+				description: 'How far the node may go to turn the input into JSON. Use "Strict" when a silently repaired but wrong object is worse than a failure.',
+			},
+			{
+				displayName: 'Sort Keys',
+				name: 'sortKeys',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to sort object keys in the cleaned string. Only used with the Pretty and Minified string formats; canonical output is always sorted.',
+			},
+			{
+				displayName: 'String Format',
+				name: 'stringFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'Canonical (RFC 8785)',
+						value: 'canonical',
+						description: 'JSON Canonicalization Scheme: sorted keys, no whitespace and normalized numbers, for byte-for-byte comparison and signing',
+					},
+					{
+						name: 'Minified',
+						value: 'minified',
+						description: 'Re-serialize without whitespace',
+					},
+					{
+						name: 'Pretty',
+						value: 'pretty',
+						description: 'Re-serialize with indentation',
+					},
+					{
+						name: 'Unchanged',
+						value: 'preserve',
+						description: 'Keep the cleaned input text as it is',
+					},
+				],
+				default: 'preserve',
+				description: 'Layout of the cleaned string returned by the Cleaned String, Both and Smart Repair output modes',
+			},
+			{
+				displayName: 'Strip Invisible Characters',
+				name: 'stripInvisibleCharacters',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to remove zero-width spaces, soft hyphens and similar invisible characters from string values. Zero-width joiners are kept, as emoji and several scripts need them.',
+			},
+			{
+				displayName: 'Strip Markdown Fences',
+				name: 'removeMarkdownFences',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to remove markdown code fences wrapping the whole input',
+			},
+			{
+				displayName: 'Trim Whitespace',
+				name: 'trimWhitespace',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to trim whitespace around the input',
+			},
+			{
+				displayName: 'Undefined Values',
+				name: 'undefinedValues',
+				type: 'options',
+				options: [
+					{
+						name: 'Convert to Null',
+						value: 'null',
+					},
+					{
+						name: 'Omit Key',
+						value: 'omit',
+						description: 'Drop object keys whose value is undefined (array entries still become null)',
+					},
+				],
+				default: 'omit',
+				description: 'How undefined is mapped by the JSON5 / JavaScript Literal dialect',
+			},
+			{
+				displayName: 'Unescape Doubly-Escaped JSON',
+				name: 'handleDoublyEscapedJSON',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to unwrap JSON that was stringified twice (e.g. "{\\"a\\": 1}")',
+			},
+			{
+				displayName: 'Unicode Normalization',
+				name: 'unicodeNormalization',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'NFC',
+						value: 'NFC',
+						description: 'Compose characters, so a letter followed by a combining accent becomes a single accented letter',
+					},
+					{
+						name: 'NFKC',
+						value: 'NFKC',
+						description: 'Compose characters and replace compatibility forms, such as full-width letters and ligatures, with their plain equivalents',
+					},
+				],
+				default: 'none',
+				description: 'Unicode normalization applied to string values (object keys are unchanged). Changed paths are listed in the metadata output modes.',
+			},
+			{
+				displayName: 'Use Basic Repair Fallback',
+				name: 'useBasicRepair',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to fall back to the built-in regex repair when every other parser tier fails',
+			},
+			{
+				displayName: 'Use JSON Repair Library Fallback',
+				name: 'useJsonRepair',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to fall back to the jsonrepair library when the cleaned string is not valid JSON',
+			},
+		],
+	},
+];
@@ -0,0 +1,84 @@
+/**
+ * Decoder for JSON payloads stored as n8n binary data
+ */
+
+import { BinaryEncoding } from '../types';
+
+/**
+ * A decoded text payload
+ */
+export interface DecodedText {
+	text: string;
+	/** Encoding used to decode the bytes (never 'auto') */
+	encoding: Exclude<BinaryEncoding, 'auto'>;
+	/** Whether a byte order mark was found and removed */
+	hadBOM: boolean;
+}
+
+/**
+ * Byte order marks, checked in order
+ */
+const BYTE_ORDER_MARKS: Array<{ bytes: number[]; encoding: Exclude<BinaryEncoding, 'auto' | 'latin1'> }> = [
+	{ bytes: [0xef, 0xbb, 0xbf], encoding: 'utf8' },
+	{ bytes: [0xff, 0xfe], encoding: 'utf16le' },
+	{ bytes: [0xfe, 0xff], encoding: 'utf16be' },
+];
+
+/**
+ * Turns binary buffers into text, detecting the encoding from the BOM or the byte pattern
+ */
+export class BinaryDecoder {
+	/**
+	 * Decodes a buffer to text
+	 * @param buffer - The raw bytes
+	 * @param encoding - Encoding to use, or 'auto' to detect it
+	 * @returns Decoded text without BOM, with the encoding that was used
+	 */
+	decode(buffer: Buffer, encoding: BinaryEncoding = 'auto'): DecodedText {
+		const bom = BYTE_ORDER_MARKS.find(
+			(mark) =>
+				(encoding === 'auto' || encoding === mark.encoding) &&
+				mark.bytes.every((byte, index) => buffer[index] === byte),
+		);
+		const body = bom ? buffer.subarray(bom.bytes.length) : buffer;
+		const resolved = bom?.encoding ?? (encoding === 'auto' ? this.detectEncoding(body) : encoding);
+
+		return {
+			text: this.decodeAs(body, resolved),
+			encoding: resolved,
+			hadBOM: bom !== undefined,
+		};
+	}
+
+	/**
+	 * Detects the encoding of a buffer without BOM. JSON text starts with an ASCII character,
+	 * so a zero byte in the first code unit reveals UTF-16 and its byte order; otherwise the
+	 * buffer is UTF-8 if it round-trips and Latin-1 if it does not.
+	 * @param buffer - The raw bytes
+	 * @returns Detected encoding
+	 */
+	private detectEncoding(buffer: Buffer): Exclude<BinaryEncoding, 'auto'> {
+		if (buffer.length >= 2) {
+			if (buffer[0] === 0 && buffer[1] !== 0) return 'utf16be';
+			if (buffer[0] !== 0 && buffer[1] === 0) return 'utf16le';
+		}
+
+		return Buffer.from(buffer.toString('utf8'), 'utf8').equals(buffer) ? 'utf8' : 'latin1';
+	}
+
+	/**
+	 * Decodes a buffer with a known encoding
+	 * @param buffer - The raw bytes (without BOM)
+	 * @param encoding - The encoding to use
+	 * @returns Decoded text
+	 */
+	private decodeAs(buffer: Buffer, encoding: Exclude<BinaryEncoding, 'auto'>): string {
+		if (encoding === 'utf16be') {
+			// Node has no UTF-16BE decoder, so swap to little endian (dropping a dangling odd byte)
+			const swapped = Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2)));
+			return swapped.swap16().toString('utf16le');
+		}
+
+		return buffer.toString(encoding);
+	}
+}
@@ -0,0 +1,370 @@
+/**
+ * Converter for JSON5 and JavaScript object literals (scraped pages, code generators) to JSON text
+ */
+
+import { SpecialValuePolicy } from '../types';
+import { SanitizerError } from './SanitizerError';
+
+/**
+ * A converted value together with what kind of JavaScript value it came from
+ */
+interface ConvertedValue {
+	json: string;
+	kind: 'string' | 'number' | 'constant' | 'container' | 'undefined';
+}
+
+const JS_CONSTANTS: Record<string, string> = {
+	true: 'true',
+	false: 'false',
+	null: 'null',
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+	b: '\b',
+	f: '\f',
+	n: '\n',
+	r: '\r',
+	t: '\t',
+	v: '\v',
+	'0': '\0',
+	'\n': '',
+	'\u2028': '',
+	'\u2029': '',
+};
+
+const NUMBER_PATTERN =
+	/(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?)n?/y;
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/y;
+
+/**
+ * Recursive-descent converter for JSON5 / JavaScript literals: unquoted keys, single-quoted
+ * and template strings, line continuations, comments, trailing commas, hex/octal/binary
+ * numbers, and NaN, Infinity and undefined mapped according to a special value policy
+ */
+export class JsLiteralConverter {
+	private source = '';
+	private position = 0;
+	private policy: SpecialValuePolicy = { nonFiniteNumbers: 'null', undefinedValues: 'omit' };
+
+	/**
+	 * Converts a JSON5 / JavaScript literal to JSON text
+	 * @param input - Literal such as `{id: 0x1F, ratio: NaN, note: 'it\'s', extra: undefined}`
+	 * @param policy - How NaN, Infinity and undefined are mapped
+	 * @returns Equivalent JSON text
+	 * @throws SanitizerError if the policy rejects a special value
+	 * @throws Error describing the position of the first unsupported token
+	 */
+	convert(input: string, policy: SpecialValuePolicy): string {
+		this.source = input;
+		this.position = 0;
+		this.policy = policy;
+
+		const value = this.readValue();
+		this.skipWhitespace();
+		if (this.position < this.source.length) {
+			this.fail('unexpected content after the value');
+		}
+
+		return value.kind === 'undefined' ? 'null' : value.json;
+	}
+
+	/**
+	 * Reads any value at the current position
+	 * @returns The converted value
+	 */
+	private readValue(): ConvertedValue {
+		this.skipWhitespace();
+		const char = this.source[this.position];
+
+		if (char === '{') return this.readObject();
+		if (char === '[') return this.readArray();
+		if (char === '"' || char === "'" || char === '`') {
+			return { json: JSON.stringify(this.readString()), kind: 'string' };
+		}
+		if (char === '-' || char === '+' || char === '.' || /\d/.test(char ?? '')) {
+			return this.readNumber();
+		}
+		if (/[A-Za-z_$]/.test(char ?? '')) return this.readIdentifierValue('');
+
+		return this.fail(char === undefined ? 'unexpected end of input' : `unexpected '${char}'`);
+	}
+
+	/**
+	 * Reads an object, dropping undefined members when the policy omits them
+	 * @returns JSON object
+	 */
+	private readObject(): ConvertedValue {
+		this.position++;
+		const entries: string[] = [];
+
+		this.skipWhitespace();
+		while (!this.consume('}')) {
+			const key = this.readKey();
+			this.expect(':');
+			const value = this.readValue();
+
+			if (value.kind !== 'undefined') {
+				entries.push(`${key}: ${value.json}`);
+			} else if (this.policy.undefinedValues === 'null') {
+				entries.push(`${key}: null`);
+			}
+
+			this.skipWhitespace();
+			if (!this.consume('}')) {
+				this.expect(',');
+				this.skipWhitespace();
+			} else {
+				break;
+			}
+		}
+
+		return { json: `{${entries.join(', ')}}`, kind: 'container' };
+	}
+
+	/**
+	 * Reads an array; undefined entries become null so that indices are preserved
+	 * @returns JSON array
+	 */
+	private readArray(): ConvertedValue {
+		this.position++;
+		const items: string[] = [];
+
+		this.skipWhitespace();
+		while (!this.consume(']')) {
+			const value = this.readValue();
+			items.push(value.kind === 'undefined' ? 'null' : value.json);
+
+			this.skipWhitespace();
+			if (!this.consume(']')) {
+				this.expect(',');
+				this.skipWhitespace();
+			} else {
+				break;
+			}
+		}
+
+		return { json: `[${items.join(', ')}]`, kind: 'container' };
+	}
+
+	/**
+	 * Reads an object key: an identifier, a string, or a number
+	 * @returns JSON string
+	 */
+	private readKey(): string {
+		const char = this.source[this.position];
+
+		if (char === '"' || char === "'" || char === '`') return JSON.stringify(this.readString());
+		if (/[\d.]/.test(char ?? '')) return JSON.stringify(this.readNumber().json);
+
+		IDENTIFIER_PATTERN.lastIndex = this.position;
+		const name = IDENTIFIER_PATTERN.exec(this.source)?.[0];
+		if (name === undefined) {
+			return this.fail(
+				char === undefined ? 'unexpected end of input' : `unexpected '${char}' in key`,
+			);
+		}
+
+		this.position += name.length;
+		return JSON.stringify(name);
+	}
+
+	/**
+	 * Reads a number, normalising JSON5 / JavaScript syntax (separators, hex/octal/binary, BigInt, `.5`, `5.`)
+	 * @returns JSON number, or the mapping of a signed NaN / Infinity
+	 */
+	private readNumber(): ConvertedValue {
+		let sign = '';
+		while (this.source[this.position] === '-' || this.source[this.position] === '+') {
+			if (this.source[this.position] === '-') sign = sign === '-' ? '' : '-';
+			this.position++;
+			this.skipWhitespace();
+		}
+
+		if (/[A-Za-z]/.test(this.source[this.position] ?? '')) return this.readIdentifierValue(sign);
+
+		NUMBER_PATTERN.lastIndex = this.position;
+		const match = NUMBER_PATTERN.exec(this.source);
+		if (!match || match[0] === '.') return this.fail('invalid number');
+		this.position += match[0].length;
+
+		let digits = match[0].replace(/_/g, '').replace(/n$/, '');
+		if (/^0[xXoObB]/.test(digits)) {
+			digits = BigInt(digits).toString();
+		} else {
+			digits = digits
+				.replace(/^\./, '0.')
+				.replace(/\.(?=[eE]|$)/, '.0')
+				.replace(/^0+(?=\d)/, '');
+		}
+
+		return { json: sign + digits, kind: 'number' };
+	}
+
+	/**
+	 * Reads true, false, null, undefined, NaN or Infinity
+	 * @param sign - Sign written before the identifier ('' or '-')
+	 * @returns The converted value
+	 */
+	private readIdentifierValue(sign: string): ConvertedValue {
+		const start = this.position;
+		IDENTIFIER_PATTERN.lastIndex = this.position;
+		const name = IDENTIFIER_PATTERN.exec(this.source)?.[0] ?? '';
+		this.position += name.length;
+
+		if (name === 'NaN' || name === 'Infinity') {
+			const value = name === 'Infinity' ? sign + name : name;
+			switch (this.policy.nonFiniteNumbers) {
+				case 'null':
+					return { json: 'null', kind: 'constant' };
+				case 'string':
+					return { json: JSON.stringify(value), kind: 'string' };
+				default:
+					throw new SanitizerError(
+						`'${value}' at position ${start} has no JSON equivalent and the special value policy does not allow it`,
+						'JSON_SANITIZATION_ERROR',
+					);
+			}
+		}
+
+		if (sign === '' && name === 'undefined') return { json: 'null', kind: 'undefined' };
+		if (sign === '' && Object.prototype.hasOwnProperty.call(JS_CONSTANTS, name)) {
+			return { json: JS_CONSTANTS[name], kind: 'constant' };
+		}
+
+		this.position = start;
+		return this.fail(`unsupported identifier '${name}'`);
+	}
+
+	/**
+	 * Reads a single-quoted, double-quoted or template string and decodes its escapes
+	 * @returns The string's value
+	 */
+	private readString(): string {
+		const start = this.position;
+		const quote = this.source[this.position++];
+		let value = '';
+
+		for (;;) {
+			const char = this.source[this.position];
+			if (char === undefined) {
+				this.position = start;
+				return this.fail('unterminated string');
+			}
+			if (char === quote) break;
+
+			if (quote === '`' && char === '$' && this.source[this.position + 1] === '{') {
+				return this.fail('template literal placeholders cannot be converted');
+			}
+
+			if (char === '\\') {
+				value += this.decodeEscape();
+				continue;
+			}
+
+			value += char;
+			this.position++;
+		}
+
+		this.position++;
+		return value;
+	}
+
+	/**
+	 * Decodes the escape sequence at the current position and moves past it
+	 * @returns The decoded character(s)
+	 */
+	private decodeEscape(): string {
+		const code = this.source[this.position + 1] ?? '';
+		this.position += 2;
+
+		if (code === '\r') {
+			// Line continuation with a Windows line ending
+			if (this.source[this.position] === '\n') this.position++;
+			return '';
+		}
+		if (code in SIMPLE_ESCAPES) return SIMPLE_ESCAPES[code];
+
+		if (code === 'u' && this.source[this.position] === '{') {
+			const close = this.source.indexOf('}', this.position);
+			const hex = close === -1 ? '' : this.source.slice(this.position + 1, close);
+			if (/^[\da-fA-F]{1,6}$/.test(hex)) {
+				this.position = close + 1;
+				return String.fromCodePoint(parseInt(hex, 16));
+			}
+		}
+
+		const hexLength = code === 'x' ? 2 : code === 'u' ? 4 : 0;
+		if (hexLength > 0) {
+			const hex = this.source.slice(this.position, this.position + hexLength);
+			if (/^[\da-fA-F]+$/.test(hex) && hex.length === hexLength) {
+				this.position += hexLength;
+				return String.fromCharCode(parseInt(hex, 16));
+			}
+			this.position -= 2;
+			return this.fail(`invalid \\${code} escape`);
+		}
+
+		// Any other escaped character stands for itself, as in JavaScript
+		return code;
+	}
+
+	/**
+	 * Consumes a character if it is next
+	 * @param char - The character to consume
+	 * @returns True if it was consumed
+	 */
+	private consume(char: string): boolean {
+		if (this.source[this.position] !== char) return false;
+		this.position++;
+		return true;
+	}
+
+	/**
+	 * Consumes an expected character
+	 * @param char - The expected character
+	 */
+	private expect(char: string): void {
+		this.skipWhitespace();
+		if (this.consume(char)) return;
+
+		const found = this.source[this.position];
+		this.fail(
+			found === undefined
+				? `expected '${char}' before end of input`
+				: `expected '${char}' but found '${found}'`,
+		);
+	}
+
+	/**
+	 * Skips whitespace and // or /* *\/ comments
+	 */
+	private skipWhitespace(): void {
+		while (this.position < this.source.length) {
+			const char = this.source[this.position];
+			const next = this.source[this.position + 1];
+
+			if (/\s/.test(char)) {
+				this.position++;
+			} else if (char === '/' && next === '/') {
+				while (this.position < this.source.length && !/[\r\n]/.test(this.source[this.position])) {
+					this.position++;
+				}
+			} else if (char === '/' && next === '*') {
+				const close = this.source.indexOf('*/', this.position + 2);
+				this.position = close === -1 ? this.source.length : close + 2;
+			} else {
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Throws a conversion error for the current position
+	 * @param reason - What went wrong
+	 * @throws Error describing the position
+	 */
+	private fail(reason: string): never {
+		throw new Error(`Invalid JavaScript literal at position ${this.position}: ${reason}`);
+	}
+}
@@ -0,0 +1,259 @@
+/**
+ * Locates JSON documents embedded in surrounding prose
+ */
+
+import { ExtractionInfo, ExtractionStrategy } from '../types';
+
+/**
+ * A JSON-looking region found in the input text
+ */
+export interface ExtractionCandidate {
+	text: string;
+	/** Offset of the first character of the candidate in the input */
+	start: number;
+	/** Offset just past the last character of the candidate */
+	end: number;
+	source: ExtractionInfo['source'];
+}
+
+/**
+ * One document of a multi-document input
+ */
+export type DocumentSegment = Pick<ExtractionCandidate, 'text' | 'start' | 'end'>;
+
+/**
+ * JSON document picked out of the input, with details for reporting
+ */
+export interface ExtractedDocument {
+	text: string;
+	info: ExtractionInfo;
+}
+
+/** Markdown code fences anywhere in the text; group 1 is the language tag */
+const FENCE_PATTERN = /```[ \t]*([\w+-]*)[ \t]*\r?\n([\s\S]*?)```/g;
+
+/** Fence languages that are treated as JSON even when the body does not start with { or [ */
+const JSON_FENCE_LANGUAGES = ['json', 'jsonc', 'json5', 'jsonl', 'ndjson'];
+
+const CLOSING_BRACKETS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Service responsible for finding JSON embedded in LLM chatter and other prose
+ */
+export class JsonExtractor {
+	/**
+	 * Extracts a single JSON document from the input according to the strategy
+	 * @param input - Raw input text
+	 * @param strategy - Which candidate to pick when several are found
+	 * @returns Extracted text with its offsets, or undefined if nothing JSON-like was found
+	 */
+	extract(input: string, strategy: ExtractionStrategy): ExtractedDocument | undefined {
+		if (strategy === 'none') return undefined;
+
+		const candidates = this.findCandidates(input);
+		if (candidates.length === 0) return undefined;
+
+		// Prefer candidates that are already valid JSON over merely balanced ones
+		const valid = candidates.filter((candidate) => this.isValidJson(candidate.text));
+		const pool = valid.length > 0 ? valid : candidates;
+		const chosen = this.selectCandidate(pool, strategy);
+
+		return {
+			text: chosen.text,
+			info: {
+				strategy,
+				source: chosen.source,
+				start: chosen.start,
+				end: chosen.end,
+				candidates: candidates.length,
+			},
+		};
+	}
+
+	/**
+	 * Finds every fenced block and top-level balanced object/array in the input
+	 * @param input - Raw input text
+	 * @returns Candidates ordered by their start offset
+	 */
+	findCandidates(input: string): ExtractionCandidate[] {
+		const fences = this.findFencedBlocks(input);
+		const candidates: ExtractionCandidate[] = fences.map((fence) => fence.candidate);
+
+		let position = 0;
+		for (const fence of [...fences, { blockStart: input.length, blockEnd: input.length }]) {
+			candidates.push(...this.findBalancedRegions(input, position, fence.blockStart));
+			position = fence.blockEnd;
+		}
+
+		return candidates.sort((a, b) => a.start - b.start);
+	}
+
+	/**
+	 * Splits multi-document input into its documents. Fenced blocks win when present;
+	 * otherwise top-level values are read one after another, so NDJSON lines, concatenated
+	 * values and pretty-printed documents separated by blank lines are all supported.
+	 * A line that does not form a balanced value becomes its own (broken) document.
+	 * @param input - Raw input text
+	 * @returns Documents in order of appearance
+	 */
+	splitDocuments(input: string): DocumentSegment[] {
+		const fences = this.findFencedBlocks(input);
+		if (fences.length > 0) {
+			return fences.map(({ candidate }) => ({
+				text: candidate.text,
+				start: candidate.start,
+				end: candidate.end,
+			}));
+		}
+
+		const documents: DocumentSegment[] = [];
+		// Brackets are matched once up front, so broken lines do not cause rescans
+		const pairs = this.matchBrackets(input, 0, input.length);
+		let position = 0;
+
+		while (position < input.length) {
+			// Whitespace and commas between documents are separators
+			if (/[\s,]/.test(input[position])) {
+				position++;
+				continue;
+			}
+
+			const newline = input.indexOf('\n', position);
+			const lineEnd = newline === -1 ? input.length : newline;
+			const end = pairs.get(position) ?? lineEnd;
+
+			const text = input.slice(position, end).trim();
+			documents.push({ text, start: position, end: position + text.length });
+			position = end;
+		}
+
+		return documents;
+	}
+
+	/**
+	 * Finds markdown fenced blocks that contain JSON
+	 * @param input - Raw input text
+	 * @returns Fenced candidates together with the full extent of each fence
+	 */
+	private findFencedBlocks(
+		input: string,
+	): Array<{ candidate: ExtractionCandidate; blockStart: number; blockEnd: number }> {
+		const blocks: Array<{ candidate: ExtractionCandidate; blockStart: number; blockEnd: number }> =
+			[];
+
+		for (const match of input.matchAll(FENCE_PATTERN)) {
+			const language = match[1].toLowerCase();
+			const body = match[2];
+			const trimmed = body.trim();
+			if (!JSON_FENCE_LANGUAGES.includes(language) && !/^[[{]/.test(trimmed)) continue;
+			if (trimmed === '') continue;
+
+			const blockStart = match.index ?? 0;
+			const blockEnd = blockStart + match[0].length;
+			const start = blockEnd - 3 - body.length + body.indexOf(trimmed);
+			blocks.push({
+				candidate: { text: trimmed, start, end: start + trimmed.length, source: 'fence' },
+				blockStart,
+				blockEnd,
+			});
+		}
+
+		return blocks;
+	}
+
+	/**
+	 * Finds top-level balanced {...} and [...] regions, ignoring brackets inside string literals
+	 * @param input - Raw input text
+	 * @param from - Offset to start scanning at
+	 * @param to - Offset to stop scanning at (exclusive)
+	 * @returns Balanced candidates within the range
+	 */
+	private findBalancedRegions(input: string, from: number, to: number): ExtractionCandidate[] {
+		const regions: ExtractionCandidate[] = [];
+		const pairs = this.matchBrackets(input, from, to);
+		let position = from;
+
+		// Pairs nested in an earlier region are part of it
+		for (const start of [...pairs.keys()].sort((a, b) => a - b)) {
+			if (start < position) continue;
+
+			const end = pairs.get(start) as number;
+			regions.push({ text: input.slice(start, end), start, end, source: 'balanced' });
+			position = end;
+		}
+
+		return regions;
+	}
+
+	/**
+	 * Matches the brackets of a range in a single pass. Brackets left open by an unbalanced or
+	 * mismatched value are dropped, so the balanced values inside it are still found
+	 * @param input - Raw input text
+	 * @param from - Offset to start scanning at
+	 * @param to - Offset to stop scanning at (exclusive)
+	 * @returns Offset just past the matching closing bracket, by offset of each balanced opening bracket
+	 */
+	private matchBrackets(input: string, from: number, to: number): Map<number, number> {
+		const pairs = new Map<number, number>();
+		const open: number[] = [];
+		let inString = false;
+
+		for (let i = from; i < to; i++) {
+			const char = input[i];
+
+			if (inString) {
+				if (char === '\\') i++;
+				else if (char === '"') inString = false;
+				continue;
+			}
+
+			if (char === '"') {
+				// Quotes in the text between values do not start strings
+				inString = open.length > 0;
+			} else if (char === '{' || char === '[') {
+				open.push(i);
+			} else if ((char === '}' || char === ']') && open.length > 0) {
+				const start = open.pop() as number;
+				if (CLOSING_BRACKETS[input[start]] === char) {
+					pairs.set(start, i + 1);
+				} else {
+					// A mismatched bracket breaks every value that is still open
+					open.length = 0;
+				}
+			}
+		}
+
+		return pairs;
+	}
+
+	/**
+	 * Picks a candidate according to the extraction strategy
+	 */
+	private selectCandidate(
+		candidates: ExtractionCandidate[],
+		strategy: ExtractionStrategy,
+	): ExtractionCandidate {
+		switch (strategy) {
+			case 'last':
+				return candidates[candidates.length - 1];
+			case 'largest':
+				return candidates.reduce((largest, candidate) =>
+					candidate.text.length > largest.text.length ? candidate : largest,
+				);
+			default:
+				return candidates[0];
+		}
+	}
+
+	/**
+	 * Checks whether a candidate parses as strict JSON
+	 */
+	private isValidJson(text: string): boolean {
+		try {
+			JSON.parse(text);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,170 @@
+/**
+ * Serializer for the cleaned string: pretty, minified and RFC 8785 canonical output
+ */
+
+import { createHash } from 'crypto';
+import { FormatOptions } from '../types';
+import { formatFieldPath, PathSegment } from './fieldPath';
+
+/**
+ * Resolved serialization settings
+ */
+interface WriteSettings {
+	/** Indentation per level; empty for compact output */
+	indent: string;
+	sortKeys: boolean;
+	asciiOnly: boolean;
+	/** Paths of strings that hold preserved numbers */
+	preserved: Set<string>;
+}
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Serializes parsed values with configurable layout, and produces the JSON Canonicalization
+ * Scheme (RFC 8785) form: keys sorted by UTF-16 code units, no whitespace, and numbers and
+ * strings written as ECMAScript's JSON.stringify writes them
+ */
+export class JsonFormatter {
+	/**
+	 * Serializes a value
+	 * @param value - The value to serialize
+	 * @param options - Layout settings
+	 * @param preservedPaths - Paths of strings holding preserved numbers, written back as raw digits
+	 * (ignored by the canonical style, which serializes the value as it is)
+	 * @returns JSON text
+	 */
+	format(value: unknown, options: FormatOptions, preservedPaths: string[] = []): string {
+		if (options.style === 'canonical') return this.canonicalize(value);
+
+		const indent =
+			options.style === 'minified'
+				? ''
+				: options.indent === 'tab'
+					? '\t'
+					: ' '.repeat(options.indent ?? 2);
+		return this.write(value, [], 0, {
+			indent,
+			sortKeys: options.sortKeys === true,
+			asciiOnly: options.asciiOnly === true,
+			preserved: new Set(preservedPaths),
+		});
+	}
+
+	/**
+	 * Serializes a value in RFC 8785 canonical form
+	 * @param value - The value to serialize
+	 * @returns Canonical JSON text
+	 */
+	canonicalize(value: unknown): string {
+		return this.write(value, [], 0, {
+			indent: '',
+			sortKeys: true,
+			asciiOnly: false,
+			preserved: new Set(),
+		});
+	}
+
+	/**
+	 * Computes the SHA-256 fingerprint of a value's canonical form, so that documents that
+	 * differ only in key order or formatting get the same fingerprint
+	 * @param value - The value to fingerprint
+	 * @returns Lowercase hexadecimal SHA-256 digest of the UTF-8 canonical JSON
+	 */
+	fingerprint(value: unknown): string {
+		return createHash('sha256').update(this.canonicalize(value), 'utf8').digest('hex');
+	}
+
+	/**
+	 * Serializes a value at a location
+	 * @param value - The value to serialize
+	 * @param path - Location of the value
+	 * @param level - Nesting level of the value
+	 * @param settings - Resolved serialization settings
+	 * @returns JSON text
+	 */
+	private write(
+		value: unknown,
+		path: PathSegment[],
+		level: number,
+		settings: WriteSettings,
+	): string {
+		if (typeof value === 'string') {
+			const isNumber = settings.preserved.has(formatFieldPath(path)) && JSON_NUMBER.test(value);
+			return isNumber ? value : this.quote(value, settings.asciiOnly);
+		}
+		if (typeof value !== 'object' || value === null) {
+			return JSON.stringify(value) ?? 'null';
+		}
+
+		if (Array.isArray(value)) {
+			return this.wrap(
+				'[',
+				value.map((item, index) => this.write(item, [...path, index], level + 1, settings)),
+				']',
+				level,
+				settings,
+			);
+		}
+
+		const colon = settings.indent === '' ? ':' : ': ';
+		const keys = Object.keys(value).filter(
+			(key) => (value as Record<string, unknown>)[key] !== undefined,
+		);
+		if (settings.sortKeys) keys.sort();
+
+		return this.wrap(
+			'{',
+			keys.map(
+				(key) =>
+					this.quote(key, settings.asciiOnly) +
+					colon +
+					this.write((value as Record<string, unknown>)[key], [...path, key], level + 1, settings),
+			),
+			'}',
+			level,
+			settings,
+		);
+	}
+
+	/**
+	 * Joins serialized members between brackets, one per line when indenting
+	 * @param open - Opening bracket
+	 * @param items - Serialized members
+	 * @param close - Closing bracket
+	 * @param level - Nesting level of the container
+	 * @param settings - Resolved serialization settings
+	 * @returns JSON text of the container
+	 */
+	private wrap(
+		open: string,
+		items: string[],
+		close: string,
+		level: number,
+		settings: WriteSettings,
+	): string {
+		if (items.length === 0) return open + close;
+		if (settings.indent === '') return open + items.join(',') + close;
+
+		const inner = '\n' + settings.indent.repeat(level + 1);
+		const outer = '\n' + settings.indent.repeat(level);
+		return open + inner + items.join(',' + inner) + outer + close;
+	}
+
+	/**
+	 * Quotes a string, optionally escaping every character outside printable ASCII
+	 * @param value - The string
+	 * @param asciiOnly - Whether to escape non-ASCII characters as \uXXXX
+	 * @returns JSON string literal
+	 */
+	private quote(value: string, asciiOnly: boolean): string {
+		const quoted = JSON.stringify(value);
+		if (!asciiOnly) return quoted;
+
+		// JSON.stringify already escaped control characters, so only non-ASCII characters remain
+		return quoted.replace(
+			/[^ -~]/g,
+			(char) => '\\u' + char.charCodeAt(0).toString(16).padStart(4, '0'),
+		);
+	}
+}
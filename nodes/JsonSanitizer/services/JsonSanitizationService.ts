@@ -3,7 +3,73 @@
  */
 
 import { jsonrepair } from 'jsonrepair';
-import { SanitizeResult } from '../types';
+import {
+	CharacterReplacement,
+	DeepDecodeOptions,
+	DuplicateKeyPolicy,
+	ExtractionStrategy,
+	FormatOptions,
+	InputDialect,
+	SanitizeOptions,
+	SanitizeResult,
+	TruncationReport,
+} from '../types';
+import {
+	DuplicateKey,
+	ParseErrorLocation,
+	ParserTier,
+	ParserTierError,
+	RepairMetadata,
+	SanitizationStep,
+} from '../types/enhanced';
+import { JsonExtractor } from './JsonExtractor';
+import { JsonFormatter } from './JsonFormatter';
+import { JsonTextScanner } from './JsonTextScanner';
+import { JsLiteralConverter } from './JsLiteralConverter';
+import { LosslessJsonParser } from './LosslessJsonParser';
+import { ParseErrorLocator } from './ParseErrorLocator';
+import { PythonLiteralConverter } from './PythonLiteralConverter';
+import { RepairDiffer } from './RepairDiffer';
+import { SafetyGuard } from './SafetyGuard';
+import { SanitizerError } from './SanitizerError';
+import { SchemaCoercer } from './SchemaCoercer';
+import { TruncationCompleter, TruncationCompletion } from './TruncationCompleter';
+import { TypographyNormalizer } from './TypographyNormalizer';
+import { formatFieldPath, matchesFieldPath, PathSegment } from './fieldPath';
+
+/**
+ * Outcome of parsing a cleaned string through the parser tiers
+ */
+interface ParseOutcome {
+	parsed: unknown;
+	/** The string that was finally accepted by JSON.parse */
+	parsedString: string;
+	parserTier: ParserTier;
+	errorsFound: string[];
+	/** Paths of numbers kept as strings (lossless number mode only) */
+	preservedNumberPaths?: string[];
+	/** Repeated object keys (duplicate detection only) */
+	duplicateKeys?: DuplicateKey[];
+	/** What was incomplete, when the parsed string was completed from truncated input */
+	truncation?: TruncationReport;
+}
+
+/**
+ * Shared state of a nested decoding walk
+ */
+interface NestedDecodeState {
+	settings: DeepDecodeOptions;
+	losslessNumbers: boolean;
+	duplicatePolicy?: DuplicateKeyPolicy;
+	/** Accumulator for the paths that were expanded */
+	expandedPaths: string[];
+	/** Accumulator for preserved numbers found inside expanded strings */
+	preservedNumberPaths: string[];
+	/** Accumulator for repeated keys found inside expanded strings */
+	duplicateKeys: DuplicateKey[];
+}
+
+const textScanner = new JsonTextScanner();
 
 /**
  * Basic JSON repair functionality for cases where jsonrepair might not be available
@@ -19,9 +85,8 @@ function basicJsonRepair(input: string): string {
 		return `"${repaired.replace(/"/g, '\\"')}"`;
 	}
 
-	// Remove comments (/* */ and //)
-	repaired = repaired.replace(/\/\*[\s\S]*?\*\//g, '');
-	repaired = repaired.replace(/\/\/.*$/gm, '');
+	// Remove comments (/* */ and //) outside string literals
+	repaired = textScanner.removeComments(repaired);
 
 	// Replace single quotes with double quotes (basic approach)
 	repaired = repaired.replace(/'([^']*)'/g, '"$1"');
@@ -33,37 +98,91 @@ function basicJsonRepair(input: string): string {
 	repaired = repaired.replace(/([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g, '$1"$2":');
 
 	// Remove trailing commas before } or ]
-	repaired = repaired.replace(/,(\s*[}\]])/g, '$1');
+	repaired = textScanner.removeTrailingCommas(repaired);
 
 	return repaired;
 }
 
+/**
+ * Repair tiers shared by the parse fallbacks and Smart Repair mode
+ */
+const REPAIR_TIERS: Record<'jsonrepair' | 'basic', (input: string) => string> = {
+	jsonrepair,
+	basic: basicJsonRepair,
+};
+
+/** Tiers that may change the meaning of the data and are refused in strict mode */
+const LOSSY_TIERS: ParserTier[] = ['truncation', 'jsonrepair', 'basic'];
+
+/** Steps and tiers that rewrite the input text, which strict mode leaves as it is */
+const STRICT_SKIPPED_STEPS: SanitizationStep[] = ['handleDoublyEscapedJSON'];
+const STRICT_SKIPPED_TIERS: ParserTier[] = [...LOSSY_TIERS, 'controlCharacters'];
+
+const REPAIR_TIER_LABELS: Record<keyof typeof REPAIR_TIERS, string> = {
+	jsonrepair: 'JSON Repair',
+	basic: 'Basic repair',
+};
+
+/**
+ * Literal dialects and the steps that record their conversion, in auto-detect order
+ */
+type LiteralDialect = Exclude<InputDialect, 'json' | 'auto'>;
+const DIALECT_STEPS: Array<[SanitizationStep, LiteralDialect]> = [
+	['convertPythonLiteral', 'python'],
+	['convertJsLiteral', 'json5'],
+];
+
 /**
  * Service responsible for JSON sanitization operations
  */
 export class JsonSanitizationService {
+	private readonly extractor = new JsonExtractor();
+	private readonly pythonConverter = new PythonLiteralConverter();
+	private readonly jsLiteralConverter = new JsLiteralConverter();
+	private readonly losslessParser = new LosslessJsonParser();
+	private readonly safetyGuard = new SafetyGuard();
+	private readonly typographyNormalizer = new TypographyNormalizer();
+	private readonly formatter = new JsonFormatter();
+	private readonly differ = new RepairDiffer();
+	private readonly errorLocator = new ParseErrorLocator();
+	private readonly truncationCompleter = new TruncationCompleter();
+
 	/**
 	 * Sanitizes JSON input from various formats
 	 * @param input - The input to sanitize (string or object)
+	 * @param options - Options controlling string processing
 	 * @returns Sanitization result
 	 * @throws Error if sanitization fails
 	 */
-	sanitize(input: unknown): SanitizeResult {
+	sanitize(input: unknown, options: SanitizeOptions = {}): SanitizeResult {
 		this.validateInput(input);
 
 		// Handle already parsed objects
 		if (typeof input === 'object' && input !== null) {
-			return this.handleParsedObject(input);
+			return this.finalizeResult(this.handleParsedObject(input), options);
 		}
 
 		// Handle string inputs
 		if (typeof input === 'string') {
-			return this.sanitizeString(input);
+			this.checkInputLimits(input, options);
+			return this.finalizeResult(this.sanitizeString(input, options), options);
 		}
 
 		throw new Error('Input must be a string or object');
 	}
 
+	/**
+	 * Splits multi-document input (fenced blocks, NDJSON, concatenated values) into separate documents
+	 * @param input - The string holding one or more JSON documents
+	 * @param options - Options providing the input size limit
+	 * @returns Raw text of each document, in order of appearance
+	 * @throws SanitizerError if the input exceeds the size or depth limit
+	 */
+	splitDocuments(input: string, options: SanitizeOptions = {}): string[] {
+		this.checkInputLimits(input, options);
+		return this.extractor.splitDocuments(this.removeBOM(input)).map((document) => document.text);
+	}
+
 	/**
 	 * Validates input before processing
 	 * @param input - The input to validate
@@ -89,88 +208,616 @@ export class JsonSanitizationService {
 		};
 	}
 
+	/**
+	 * Expands string fields that hold stringified JSON, when deep decoding is enabled
+	 * @param result - Sanitization result whose parsed value is walked
+	 * @param options - Options controlling string processing
+	 * @returns Result with decoded values and the list of expanded paths
+	 */
+	private decodeNestedValues(result: SanitizeResult, options: SanitizeOptions): SanitizeResult {
+		if (!options.deepDecode) return result;
+
+		const state: NestedDecodeState = {
+			settings: options.deepDecode,
+			losslessNumbers: options.losslessNumbers === true,
+			duplicatePolicy: options.duplicateKeys,
+			expandedPaths: [],
+			preservedNumberPaths: [],
+			duplicateKeys: [],
+		};
+		const parsed = this.decodeNested(result.parsed, [], 1, state);
+		if (state.expandedPaths.length === 0) {
+			return { ...result, expandedPaths: state.expandedPaths };
+		}
+
+		// Nested strings resolve duplicates like 'last' under the error policy, so they are reported here
+		if (state.duplicateKeys.length > 0 && options.duplicateKeys === 'error') {
+			throw this.createDuplicateKeyError(state.duplicateKeys);
+		}
+		const duplicateKeys = result.duplicateKeys && [...result.duplicateKeys, ...state.duplicateKeys];
+
+		if (!state.losslessNumbers) {
+			return {
+				...result,
+				parsed,
+				cleanedString: JSON.stringify(parsed, null, 2),
+				expandedPaths: state.expandedPaths,
+				duplicateKeys,
+			};
+		}
+
+		const preservedNumberPaths = [...(result.preservedNumberPaths ?? []), ...state.preservedNumberPaths];
+		return {
+			...result,
+			duplicateKeys,
+			parsed,
+			cleanedString: this.losslessParser.stringify(parsed, preservedNumberPaths),
+			expandedPaths: state.expandedPaths,
+			preservedNumberPaths,
+		};
+	}
+
+	/**
+	 * Recursively replaces JSON-looking strings with their parsed value, without mutating the input
+	 * @param value - The value to walk
+	 * @param path - Location of the value relative to the root
+	 * @param depth - Decoding level of the value (1 for values inside the root document)
+	 * @param state - Settings and accumulators of the walk
+	 * @returns The value with nested JSON strings decoded
+	 */
+	private decodeNested(
+		value: unknown,
+		path: PathSegment[],
+		depth: number,
+		state: NestedDecodeState,
+	): unknown {
+		const { settings } = state;
+
+		if (typeof value === 'string') {
+			if (depth > settings.maxDepth || !/^\s*(\{|\[|```)/.test(value)) return value;
+			const isSelected =
+				settings.paths.length === 0 ||
+				settings.paths.some((pattern) => matchesFieldPath(pattern, path));
+			if (!isSelected) return value;
+
+			// Nested strings are only decoded losslessly, so text such as "[citation needed]" stays a string
+			let decoded: SanitizeResult;
+			try {
+				decoded = this.sanitizeString(value, {
+					strictness: 'strict',
+					losslessNumbers: state.losslessNumbers,
+					duplicateKeys: state.duplicatePolicy === 'error' ? 'last' : state.duplicatePolicy,
+				});
+			} catch {
+				return value;
+			}
+			if (typeof decoded.parsed !== 'object' || decoded.parsed === null) return value;
+
+			state.expandedPaths.push(formatFieldPath(path));
+			for (const nestedPath of decoded.preservedNumberPaths ?? []) {
+				state.preservedNumberPaths.push(formatFieldPath([...path, nestedPath]));
+			}
+			for (const duplicate of decoded.duplicateKeys ?? []) {
+				state.duplicateKeys.push({
+					...duplicate,
+					path: formatFieldPath([...path, duplicate.path]),
+				});
+			}
+			return this.decodeNested(decoded.parsed, path, depth + 1, state);
+		}
+
+		if (Array.isArray(value)) {
+			return value.map((item, index) => this.decodeNested(item, [...path, index], depth, state));
+		}
+
+		if (typeof value === 'object' && value !== null) {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [
+					key,
+					this.decodeNested(item, [...path, key], depth, state),
+				]),
+			);
+		}
+
+		return value;
+	}
+
 	/**
 	 * Attempts to repair malformed JSON using advanced repair techniques
 	 * @param input - The input string to repair
+	 * @param options - Options controlling string processing
 	 * @returns Sanitization result with repair metadata
 	 * @throws Error if repair fails
 	 */
-	repair(input: unknown): SanitizeResult {
+	repair(input: unknown, options: SanitizeOptions = {}): SanitizeResult {
 		// Validate that input is a string for repair mode
 		if (typeof input !== 'string') {
 			throw new Error('Smart Repair mode requires string input');
 		}
 
 		this.validateInput(input);
+		this.checkInputLimits(input, options);
 
-		// Use jsonrepair for advanced repair
-		try {
-			const repairedString = jsonrepair(input);
-			const parsed = JSON.parse(repairedString);
+		return this.finalizeResult(this.repairString(input, options), options);
+	}
 
-			// Check if repair actually changed anything
-			const wasRepaired = repairedString !== input.trim();
+	/**
+	 * Checks string input against the size and nesting depth limits
+	 * @param input - The string input
+	 * @param options - Options providing the limits
+	 * @throws SanitizerError if the input exceeds the size or depth limit
+	 */
+	private checkInputLimits(input: string, options: SanitizeOptions): void {
+		this.safetyGuard.checkInputSize(Buffer.byteLength(input, 'utf8'), options.limits ?? {});
+		this.safetyGuard.checkTextDepth(input, options.limits ?? {});
+	}
+
+	/**
+	 * Applies the safety limits, nested decoding, value normalization, schema coercion and
+	 * formatting to a sanitization result
+	 * @param result - Sanitization result of the top-level value
+	 * @param options - Options controlling each stage
+	 * @returns The final result
+	 * @throws SanitizerError if a limit is exceeded or a prototype key is rejected
+	 */
+	private finalizeResult(result: SanitizeResult, options: SanitizeOptions): SanitizeResult {
+		const decoded = this.decodeNestedValues(this.applySafetyLimits(result, options), options);
+
+		// Expanded strings add structure that has not been inspected yet
+		const checked = decoded.expandedPaths?.length ? this.applySafetyLimits(decoded, options) : decoded;
+		const normalized = this.normalizeStringValues(checked, options);
+		return this.formatResult(this.coerceToSchema(normalized, options), options);
+	}
+
+	/**
+	 * Coerces the parsed value to the configured JSON Schema
+	 * @param result - Sanitization result whose parsed value is coerced
+	 * @param options - Options providing the schema
+	 * @returns The result with the coerced value and the list of changes
+	 * @throws SanitizerError if the schema is invalid or has an unresolvable $ref
+	 */
+	private coerceToSchema(result: SanitizeResult, options: SanitizeOptions): SanitizeResult {
+		if (!options.coercion) return result;
+
+		const { value, coercions } = new SchemaCoercer(options.coercion.schema).coerce(result.parsed, {
+			removeAdditional: options.coercion.removeAdditional,
+			preservedPaths: result.preservedNumberPaths,
+		});
+		if (coercions.length === 0) return { ...result, coercions };
+
+		return {
+			...result,
+			parsed: value,
+			cleanedString: this.losslessParser.stringify(value, result.preservedNumberPaths ?? []),
+			coercions,
+		};
+	}
+
+	/**
+	 * Re-serializes the cleaned string in the configured format and adds the fingerprint
+	 * @param result - Sanitization result with the final parsed value
+	 * @param options - Options selecting the format and fingerprint
+	 * @returns The formatted result
+	 */
+	private formatResult(result: SanitizeResult, options: SanitizeOptions): SanitizeResult {
+		const format = options.format;
+		const formatted =
+			format && format.style !== 'preserve'
+				? {
+						...result,
+						cleanedString: this.formatter.format(result.parsed, format, result.preservedNumberPaths),
+					}
+				: result;
+
+		return options.fingerprint
+			? { ...formatted, fingerprint: this.formatter.fingerprint(result.parsed) }
+			: formatted;
+	}
+
+	/**
+	 * Applies Unicode normalization and invisible character removal to the parsed string values
+	 * @param result - Sanitization result whose parsed value is normalized
+	 * @param options - Options selecting the string value normalizations
+	 * @returns The result, with the changed paths added to the typography report
+	 */
+	private normalizeStringValues(result: SanitizeResult, options: SanitizeOptions): SanitizeResult {
+		if (!options.stringValues) return result;
+
+		const { value, changedPaths } = this.typographyNormalizer.normalizeValues(
+			result.parsed,
+			options.stringValues,
+		);
+		if (changedPaths.length === 0) return result;
+
+		return {
+			...result,
+			parsed: value,
+			cleanedString: this.losslessParser.stringify(value, result.preservedNumberPaths ?? []),
+			typography: {
+				replacements: result.typography?.replacements ?? [],
+				normalizedPaths: changedPaths,
+			},
+		};
+	}
+
+	/**
+	 * Enforces the structural limits and the prototype key policy on a parsed value
+	 * @param result - Sanitization result to inspect
+	 * @param options - Options providing the limits and the prototype key policy
+	 * @returns The result, with stripped keys removed from the parsed value and the cleaned string
+	 * @throws SanitizerError if a limit is exceeded or a prototype key is rejected
+	 */
+	private applySafetyLimits(result: SanitizeResult, options: SanitizeOptions): SanitizeResult {
+		if (!options.limits && !options.prototypeKeys) return result;
+
+		const { value, strippedKeys } = this.safetyGuard.inspect(
+			result.parsed,
+			options.limits ?? {},
+			options.prototypeKeys,
+		);
+		if (strippedKeys.length === 0) return result;
+
+		return {
+			...result,
+			parsed: value,
+			cleanedString: this.losslessParser.stringify(value, result.preservedNumberPaths ?? []),
+			strippedKeys: [...(result.strippedKeys ?? []), ...strippedKeys],
+		};
+	}
+
+	/**
+	 * Repairs string input with jsonrepair, falling back to basic repair
+	 * @param input - The input string to repair
+	 * @param options - Options controlling string processing
+	 * @returns Sanitization result with repair metadata
+	 * @throws Error if repair fails
+	 */
+	private repairString(input: string, options: SanitizeOptions): SanitizeResult {
+		// Strict mode only accepts input that becomes valid JSON through lossless cleanup
+		if (options.strictness === 'strict') {
+			return this.sanitizeString(input, options);
+		}
+
+		const extraction = this.extractor.extract(input, this.resolveExtractionStrategy(input, options));
+		const extracted = extraction ? extraction.text : input;
+		const stepsApplied: SanitizationStep[] = extraction ? ['extractEmbeddedJSON'] : [];
+
+		let source = extracted;
+		let replacements: CharacterReplacement[] = [];
+		if (options.steps?.normalizeTypography !== false) {
+			const normalized = this.typographyNormalizer.normalizeStructure(source);
+			if (normalized.text !== source) stepsApplied.push('normalizeTypography');
+			source = normalized.text;
+			replacements = normalized.replacements;
+		}
+
+		for (const [step, dialect] of DIALECT_STEPS) {
+			const converted = this.convertDialect(source, options, dialect);
+			if (converted !== source) stepsApplied.push(step);
+			source = converted;
+		}
+
+		const failures: Array<{ tier: keyof typeof REPAIR_TIERS; message: string }> = [];
+		let repaired: SanitizeResult | undefined;
+		const completion = this.completeTruncation(source, options);
+
+		// Use jsonrepair for advanced repair, then basic repair as fallback
+		for (const tier of ['jsonrepair', 'basic'] as const) {
+			if (!this.isTierEnabled(tier, options)) continue;
 
-			return {
-				cleanedString: repairedString,
-				parsed,
-				original: input,
-				wasAlreadyParsed: false,
-				wasRepaired,
-			};
-		} catch (jsonRepairError) {
-			// If jsonrepair fails, try basic repair as fallback
 			try {
-				const basicRepairedString = basicJsonRepair(input);
-				const parsed = JSON.parse(basicRepairedString);
+				const repairedString = REPAIR_TIERS[tier](completion?.text ?? source);
+				const { parsed, preservedNumberPaths, duplicateKeys } = this.parseText(
+					repairedString,
+					options,
+				);
 
-				return {
-					cleanedString: basicRepairedString,
+				// Check if repair actually changed anything
+				const wasRepaired = tier === 'basic' || repairedString !== source.trim();
+
+				repaired = {
+					cleanedString: repairedString,
 					parsed,
 					original: input,
 					wasAlreadyParsed: false,
-					wasRepaired: true,
+					wasRepaired,
+					wasTruncated: completion !== undefined,
+					truncation: completion?.report,
+					extraction: extraction?.info,
+					preservedNumberPaths,
+					duplicateKeys,
+					typography: this.createTypographyReport(replacements),
+					repairMetadata: this.createRepairMetadata(
+						input,
+						repairedString,
+						{
+							parserTier: tier,
+							wasRepaired,
+							stepsApplied,
+							errorsFound: failures.map((failure) => `${failure.tier}: ${failure.message}`),
+						},
+						options.diff ? source : undefined,
+					),
 				};
-			} catch (basicError) {
-				// If both methods fail, provide comprehensive error
-				throw new Error(
-					`Failed to repair JSON with all methods:\n` +
-					`- JSON Repair error: ${(jsonRepairError as Error).message}\n` +
-					`- Basic repair error: ${(basicError as Error).message}`
-				);
+				break;
+			} catch (error) {
+				failures.push({ tier, message: (error as Error).message });
 			}
 		}
+
+		if (repaired) return this.applyDuplicateKeyPolicy(repaired, options, repaired.cleanedString);
+
+		if (failures.length === 0) {
+			throw new Error('Smart Repair mode requires jsonrepair or basic repair to be enabled');
+		}
+
+		// If all methods fail, provide comprehensive error
+		const location = this.errorLocator.locate(source);
+		throw this.createParseError(
+			`Failed to repair JSON with all methods:\n` +
+			failures.map((failure) => `- ${REPAIR_TIER_LABELS[failure.tier]} error: ${failure.message}`).join('\n') +
+			(location ? `\n\nFirst syntax error: ${this.describeParseError(location)}` : ''),
+			location,
+			failures,
+		);
+	}
+
+	/**
+	 * Checks whether a parser tier is enabled by the options
+	 * @param tier - The parser tier
+	 * @param options - Options controlling string processing
+	 * @returns True unless the tier was switched off
+	 */
+	private isTierEnabled(tier: ParserTier, options: SanitizeOptions): boolean {
+		if (tier === 'native') return true;
+		if (options.strictness === 'strict' && STRICT_SKIPPED_TIERS.includes(tier)) return false;
+		return options.parserTiers?.[tier] !== false;
+	}
+
+	/**
+	 * Determines which extraction strategy applies to the input
+	 * @param input - The raw input string
+	 * @param options - Options controlling string processing
+	 * @returns The configured strategy, or "first" when aggressive mode finds prose around the JSON
+	 */
+	private resolveExtractionStrategy(input: string, options: SanitizeOptions): ExtractionStrategy {
+		const strategy = options.extraction ?? 'none';
+		if (strategy !== 'none' || options.strictness !== 'aggressive') return strategy;
+
+		// Input that already starts like JSON is left to the repair tiers, so a truncated
+		// document is repaired as a whole instead of being reduced to one of its children
+		return /^[\s\uFEFF]*[[{"]/.test(input) ? 'none' : 'first';
 	}
+
 	/**
 	 * Sanitizes string input through multiple cleaning steps
 	 * @param input - The string to sanitize
+	 * @param options - Options controlling string processing
 	 * @returns Sanitization result with cleaned data
 	 * @throws Error if sanitization fails
 	 */
-	private sanitizeString(input: string): SanitizeResult {
-		let cleaned = input;
+	private sanitizeString(input: string, options: SanitizeOptions): SanitizeResult {
+		const extraction = this.extractor.extract(input, this.resolveExtractionStrategy(input, options));
+		let cleaned = extraction ? extraction.text : input;
+		const stepsApplied: SanitizationStep[] = extraction ? ['extractEmbeddedJSON'] : [];
+		let replacements: CharacterReplacement[] = [];
 
-		// Apply cleaning steps
-		cleaned = this.removeBOM(cleaned);
-		cleaned = this.trimWhitespace(cleaned);
-		cleaned = this.removeMarkdownFences(cleaned);
-		cleaned = this.handleDoublyEscapedJSON(cleaned);
-		cleaned = this.removeTrailingCommas(cleaned);
-		cleaned = this.removeComments(cleaned);
-		cleaned = this.normalizeLineEndings(cleaned);
-		cleaned = this.trimWhitespace(cleaned);
+		// Apply cleaning steps, recording the ones that changed the string
+		const applyStep = (step: SanitizationStep, transform: (value: string) => string) => {
+			if (options.steps?.[step] === false) return;
+			if (options.strictness === 'strict' && STRICT_SKIPPED_STEPS.includes(step)) return;
+
+			const next = transform(cleaned);
+			if (next !== cleaned && !stepsApplied.includes(step)) {
+				stepsApplied.push(step);
+			}
+			cleaned = next;
+		};
+
+		applyStep('removeBOM', (value) => this.removeBOM(value));
+		applyStep('trimWhitespace', (value) => this.trimWhitespace(value));
+		applyStep('removeMarkdownFences', (value) => this.removeMarkdownFences(value));
+		applyStep('normalizeTypography', (value) => {
+			const normalized = this.typographyNormalizer.normalizeStructure(value);
+			replacements = normalized.replacements;
+			return normalized.text;
+		});
+		// Dialect conversion runs before the JSON cleanups, which do not understand Python or JavaScript string syntax
+		for (const [step, dialect] of DIALECT_STEPS) {
+			applyStep(step, (value) => this.convertDialect(value, options, dialect));
+		}
+		applyStep('handleDoublyEscapedJSON', (value) => this.handleDoublyEscapedJSON(value));
+		applyStep('removeTrailingCommas', (value) => this.removeTrailingCommas(value));
+		applyStep('removeComments', (value) => this.removeComments(value));
+		applyStep('normalizeLineEndings', (value) => this.normalizeLineEndings(value));
+		applyStep('trimWhitespace', (value) => this.trimWhitespace(value));
 
 		// Parse and validate
-		const parsed = this.parseJSON(cleaned);
+		const outcome = this.parseJSON(cleaned, options);
+		const wasRepaired = outcome.parserTier !== 'native';
+
+		return this.applyDuplicateKeyPolicy(
+			{
+				cleanedString: cleaned,
+				parsed: outcome.parsed,
+				original: input,
+				wasAlreadyParsed: false,
+				wasRepaired,
+				wasTruncated: outcome.truncation !== undefined,
+				truncation: outcome.truncation,
+				extraction: extraction?.info,
+				preservedNumberPaths: outcome.preservedNumberPaths,
+				duplicateKeys: outcome.duplicateKeys,
+				typography: this.createTypographyReport(replacements),
+				repairMetadata: this.createRepairMetadata(
+					input,
+					outcome.parsedString,
+					{
+						parserTier: outcome.parserTier,
+						wasRepaired,
+						stepsApplied,
+						errorsFound: outcome.errorsFound,
+					},
+					options.diff ? cleaned : undefined,
+				),
+			},
+			options,
+			outcome.parsedString,
+		);
+	}
+
+	/**
+	 * Creates the typography report for the characters replaced before parsing
+	 * @param replacements - Characters replaced outside string literals
+	 * @returns The report, or undefined if nothing was replaced
+	 */
+	private createTypographyReport(replacements: CharacterReplacement[]): SanitizeResult['typography'] {
+		return replacements.length > 0 ? { replacements, normalizedPaths: [] } : undefined;
+	}
+
+	/**
+	 * Applies the duplicate key policy to a parsed string
+	 * @param result - Sanitization result whose duplicate keys were detected during parsing
+	 * @param options - Options selecting the duplicate key policy
+	 * @param parsedText - The text the parsed value was read from
+	 * @returns The result, with the cleaned string rewritten in the selected format when the policy
+	 * kept a value JSON.parse would drop
+	 * @throws SanitizerError of type VALIDATION_ERROR under the error policy
+	 */
+	private applyDuplicateKeyPolicy(
+		result: SanitizeResult,
+		options: SanitizeOptions,
+		parsedText: string,
+	): SanitizeResult {
+		const duplicateKeys = result.duplicateKeys ?? [];
+		if (duplicateKeys.length === 0 || options.duplicateKeys === 'last') return result;
+		if (options.duplicateKeys === 'error') throw this.createDuplicateKeyError(duplicateKeys);
+
+		// The cleaned string still holds every occurrence, which JSON.parse resolves as 'last';
+		// it only needs rewriting if the policy kept something else
+		const preservedPaths = result.preservedNumberPaths ?? [];
+		const lastWins = this.losslessParser.parse(parsedText, {
+			preserveNumbers: options.losslessNumbers === true,
+			duplicateKeys: 'last',
+		}).value;
+		const minified: FormatOptions = { style: 'minified' };
+		if (
+			this.formatter.format(lastWins, minified, preservedPaths) ===
+			this.formatter.format(result.parsed, minified, preservedPaths)
+		) {
+			return result;
+		}
 
 		return {
-			cleanedString: cleaned,
-			parsed,
-			original: input,
-			wasAlreadyParsed: false,
+			...result,
+			cleanedString: this.formatter.format(result.parsed, options.format ?? { style: 'preserve' }, preservedPaths),
+		};
+	}
+
+	/**
+	 * Creates the error raised when the duplicate key policy is 'error'
+	 * @param duplicateKeys - Every repeated key that was found
+	 * @returns Validation error listing the paths
+	 */
+	private createDuplicateKeyError(duplicateKeys: DuplicateKey[]): SanitizerError {
+		const summary = duplicateKeys
+			.map((duplicate) => `${duplicate.path} (${duplicate.occurrences} times)`)
+			.join(', ');
+		return new SanitizerError(
+			`Found ${duplicateKeys.length} duplicate key(s): ${summary}`,
+			'VALIDATION_ERROR',
+			{ duplicateKeys },
+		);
+	}
+
+	/**
+	 * Converts input written in a literal dialect to JSON text
+	 * @param input - The input string
+	 * @param options - Options selecting the dialect and special value policy
+	 * @param dialect - The dialect to convert from
+	 * @returns JSON text, or the input unchanged when the dialect is not selected or not detected
+	 * @throws SanitizerError if the special value policy rejects a value
+	 * @throws Error if the dialect was selected and the input is not a valid literal of it
+	 */
+	private convertDialect(input: string, options: SanitizeOptions, dialect: LiteralDialect): string {
+		const selected = options.dialect ?? 'json';
+		if (selected !== dialect && selected !== 'auto') return input;
+
+		const convert = () =>
+			dialect === 'python'
+				? this.pythonConverter.convert(input)
+				: this.jsLiteralConverter.convert(input, {
+						nonFiniteNumbers: options.specialValues?.nonFiniteNumbers ?? 'null',
+						undefinedValues: options.specialValues?.undefinedValues ?? 'omit',
+					});
+		if (selected === dialect) return convert();
+
+		// Auto-detect: valid JSON stays as it is, and input that is not a literal of the dialect
+		// is left to the next dialect and the repair tiers; policy rejections still fail
+		if (this.getParseError(input) === undefined) return input;
+		let policyError: SanitizerError | undefined;
+		try {
+			return convert();
+		} catch (error) {
+			if (error instanceof SanitizerError) policyError = error;
+		}
+		if (policyError) throw policyError;
+		return input;
+	}
+
+	/**
+	 * Builds the repair metadata describing how an input was turned into valid JSON
+	 * @param original - The untouched input string
+	 * @param repairedString - The string that finally parsed
+	 * @param details - Parser tier, applied steps and tier errors
+	 * @param diffSource - Text handed to the parser tiers; when given, the metadata includes a diff
+	 * @returns Repair metadata
+	 */
+	private createRepairMetadata(
+		original: string,
+		repairedString: string,
+		details: Pick<RepairMetadata, 'parserTier' | 'wasRepaired' | 'stepsApplied' | 'errorsFound'>,
+		diffSource?: string,
+	): RepairMetadata {
+		let repairMethod: RepairMetadata['repairMethod'] = 'none';
+		if (
+			details.wasRepaired &&
+			(details.parserTier === 'truncation' || details.parserTier === 'jsonrepair' || details.parserTier === 'basic')
+		) {
+			repairMethod = details.parserTier;
+		} else if (details.wasRepaired || details.stepsApplied.length > 0) {
+			repairMethod = 'sanitization';
+		}
+
+		// Untouched input that parsed natively was valid to begin with
+		const untouched = repairMethod === 'none' && details.parserTier === 'native';
+
+		return {
+			...details,
+			repairMethod,
+			originalLength: original.length,
+			repairedLength: repairedString.length,
+			originalParseError: untouched ? undefined : this.getParseError(original),
+			...(diffSource !== undefined
+				? { diff: this.differ.diff(original, repairedString, diffSource) }
+				: {}),
 		};
 	}
 
+	/**
+	 * Returns the JSON.parse error message for a string, if any
+	 * @param input - The string to check
+	 * @returns Error message, or undefined if the string is valid JSON
+	 */
+	private getParseError(input: string): string | undefined {
+		try {
+			JSON.parse(input);
+			return undefined;
+		} catch (error) {
+			return (error as Error).message;
+		}
+	}
+
 	/**
 	 * Removes Byte Order Mark (BOM) from the beginning of input
 	 * @param input - The input string
@@ -229,36 +876,21 @@ export class JsonSanitizationService {
 	}
 
 	/**
-	 * Removes trailing commas before closing brackets or braces
+	 * Removes trailing commas before closing brackets or braces, outside string literals
 	 * @param input - The input string
 	 * @returns String without trailing commas
 	 */
 	private removeTrailingCommas(input: string): string {
-		return input.replace(/,(\s*[}\]])/g, '$1');
+		return textScanner.removeTrailingCommas(input);
 	}
 
 	/**
-	 * Removes both single-line and multi-line comments from JSON
+	 * Removes both single-line and multi-line comments that appear outside string literals
 	 * @param input - The input string
 	 * @returns String without comments
 	 */
 	private removeComments(input: string): string {
-		// Remove block comments first
-		let result = input.replace(/\/\*[\s\S]*?\*\//g, '');
-		
-		// For line comments, be more careful to avoid removing URLs
-		// Split by lines and process each line
-		return result.replace(/^(.*?)\/\/.*$/gm, (match, beforeComment) => {
-			// Only remove the comment if // appears outside of quoted strings
-			// Simple heuristic: count unescaped quotes before //
-			const quotesBeforeComment = (beforeComment.match(/(?<!\\)"/g) || []).length;
-			// If even number of quotes, we're outside a string, so remove comment
-			if (quotesBeforeComment % 2 === 0) {
-				return beforeComment;
-			}
-			// If odd number of quotes, we're inside a string, keep the line as-is
-			return match;
-		});
+		return textScanner.removeComments(input);
 	}
 
 	/**
@@ -285,43 +917,129 @@ export class JsonSanitizationService {
 	}
 
 	/**
-	 * Parses JSON string with enhanced error reporting
+	 * Parses JSON text with JSON.parse, or with the lossless parser when number precision must be
+	 * preserved or duplicate keys detected
+	 * @param text - The JSON text
+	 * @param options - Options selecting lossless number handling and the duplicate key policy
+	 * @returns Parsed value, with the paths of numbers kept as strings in lossless mode and the
+	 * repeated keys when duplicate detection is on
+	 * @throws Error if the text is not valid JSON
+	 */
+	private parseText(
+		text: string,
+		options: SanitizeOptions,
+	): Pick<ParseOutcome, 'parsed' | 'preservedNumberPaths' | 'duplicateKeys'> {
+		if (!options.losslessNumbers && !options.duplicateKeys) return { parsed: JSON.parse(text) };
+
+		const { value, preservedPaths, duplicateKeys } = this.losslessParser.parse(text, {
+			preserveNumbers: options.losslessNumbers === true,
+			duplicateKeys: options.duplicateKeys === 'error' ? 'last' : options.duplicateKeys,
+		});
+		return {
+			parsed: value,
+			preservedNumberPaths: options.losslessNumbers ? preservedPaths : undefined,
+			duplicateKeys: options.duplicateKeys ? duplicateKeys : undefined,
+		};
+	}
+
+	/**
+	 * Parses JSON string with enhanced error reporting, trying each parser tier in order
 	 * @param input - The JSON string to parse
-	 * @returns Parsed object
-	 * @throws Error with preview if parsing fails
+	 * @param options - Options controlling which fallback tiers may run
+	 * @returns Parsed value together with the tier and string that succeeded
+	 * @throws SanitizerError with the location of the syntax error if every tier fails
 	 */
-	private parseJSON(input: string): unknown {
-		try {
-			return JSON.parse(input);
-		} catch (error) {
-			// Try escaping control characters first if not already done
-			try {
-				const controlEscaped = this.escapeControlCharacters(input);
-				if (controlEscaped !== input) {
-					return JSON.parse(controlEscaped);
-				}
-			} catch (controlError) {
-				// Continue to other fallbacks
+	private parseJSON(input: string, options: SanitizeOptions): ParseOutcome {
+		let completion: TruncationCompletion | undefined;
+		let completed: string | undefined;
+		// Completion runs only once the lossless tiers have failed. The repair tiers start from the
+		// completed text, so truncation is reported even when they also fix other problems
+		const complete = (): string => {
+			if (completed === undefined) {
+				completion = this.completeTruncation(input, options);
+				completed = completion?.text ?? input;
 			}
+			return completed;
+		};
+		const tiers: Array<{ tier: ParserTier; transform: () => string }> = [
+			{ tier: 'native', transform: () => input },
+			{ tier: 'controlCharacters', transform: () => this.escapeControlCharacters(input) },
+			{ tier: 'truncation', transform: complete },
+			{ tier: 'jsonrepair', transform: () => REPAIR_TIERS.jsonrepair(complete()) },
+			{ tier: 'basic', transform: () => REPAIR_TIERS.basic(complete()) },
+		];
+		const tierErrors: ParserTierError[] = [];
+
+		for (const { tier, transform } of tiers) {
+			if (!this.isTierEnabled(tier, options)) continue;
 
-			// Try jsonrepair as fallback
 			try {
-				const repaired = jsonrepair(input);
-				return JSON.parse(repaired);
-			} catch (repairError) {
-				// Try basic repair as final fallback
-				try {
-					const basicRepaired = basicJsonRepair(input);
-					return JSON.parse(basicRepaired);
-				} catch (basicError) {
-					const preview = input.length > 200 ? input.substring(0, 200) + '...' : input;
-					throw new Error(
-						`Failed to parse JSON after sanitization: ${(error as Error).message}\n\n` +
-						`Cleaned string preview: ${preview}\n\n` +
-						`Suggestion: Try using "Smart Repair" output mode for malformed JSON, or check if your input contains unescaped special characters.`
-					);
-				}
+				const candidate = transform();
+				// Escaping control characters or completing only helps if there was anything to change
+				if ((tier === 'controlCharacters' || tier === 'truncation') && candidate === input) continue;
+
+				const parsed = this.parseText(candidate, options);
+				const errorsFound = tierErrors.map((failure) => `${failure.tier}: ${failure.message}`);
+				const truncation = LOSSY_TIERS.includes(tier) ? completion?.report : undefined;
+				return { ...parsed, parsedString: candidate, parserTier: tier, errorsFound, truncation };
+			} catch (error) {
+				tierErrors.push({ tier, message: (error as Error).message });
 			}
 		}
+
+		const location = this.errorLocator.locate(input);
+		const reason = location ? this.describeParseError(location) : tierErrors[0].message;
+		if (options.strictness === 'strict') {
+			throw this.createParseError(
+				`Strict mode refused a lossy repair: the input is not valid JSON after lossless cleanup (${reason})\n\n` +
+				`Suggestion: Set Repair Strictness to "Tolerant" to allow automatic repairs.`,
+				location,
+				tierErrors,
+			);
+		}
+		throw this.createParseError(
+			`Failed to parse JSON after sanitization: ${reason}\n\n` +
+			`Suggestion: Try using "Smart Repair" output mode for malformed JSON, or check if your input contains unescaped special characters.`,
+			location,
+			tierErrors,
+		);
 	}
-}
\ No newline at end of file
+
+	/**
+	 * Closes the strings, arrays and objects left open by input that was cut off
+	 * @param input - The cleaned string
+	 * @param options - Options that may disable truncation completion
+	 * @returns The completed text and what was incomplete, or undefined if the input is not
+	 * truncated or completion is disabled
+	 */
+	private completeTruncation(input: string, options: SanitizeOptions): TruncationCompletion | undefined {
+		return this.isTierEnabled('truncation', options) ? this.truncationCompleter.complete(input) : undefined;
+	}
+
+	/**
+	 * Describes a syntax error in one line
+	 * @param location - Location of the syntax error
+	 * @returns Description such as "expected ',' or '}' but found 'o' at line 3, column 8"
+	 */
+	private describeParseError(location: ParseErrorLocation): string {
+		return `expected ${location.expected} but found ${location.found} at line ${location.line}, column ${location.column}`;
+	}
+
+	/**
+	 * Creates the error for text that no parser tier could read
+	 * @param message - Error message
+	 * @param parseError - Location of the first syntax error in the cleaned text, if found
+	 * @param tierErrors - Error raised by each tier that was tried
+	 * @returns SanitizerError carrying the location and the tier errors
+	 */
+	private createParseError(
+		message: string,
+		parseError: ParseErrorLocation | undefined,
+		tierErrors: ParserTierError[],
+	): SanitizerError {
+		return new SanitizerError(message, 'JSON_SANITIZATION_ERROR', {
+			...(parseError ? { parseError } : {}),
+			tierErrors,
+		});
+	}
+}
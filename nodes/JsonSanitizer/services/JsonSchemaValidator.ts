@@ -0,0 +1,541 @@
+/**
+ * Dependency-free JSON Schema validator (draft-07 and draft 2020-12 core keywords)
+ */
+
+import { SchemaViolation } from '../types/enhanced';
+import { SanitizerError } from './SanitizerError';
+import { escapePointer, isPlainObject } from './jsonValue';
+
+/**
+ * JSON Schema node: either a boolean schema or a keyword object
+ */
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+/** Guard against $ref cycles that never consume any data */
+const MAX_SCHEMA_DEPTH = 256;
+
+/**
+ * Format checkers for the string formats that are asserted during validation
+ */
+export const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+	'date-time': (value) =>
+		/^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) &&
+		!isNaN(Date.parse(value)),
+	date: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+	time: (value) => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(value),
+	email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+	uri: (value) => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(value),
+	uuid: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+	ipv4: (value) =>
+		/^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/.test(value),
+	ipv6: (value) => /^[0-9a-fA-F:.]+$/.test(value) && value.includes(':'),
+	hostname: (value) =>
+		/^(?=.{1,253}$)[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(
+			value,
+		),
+};
+
+/**
+ * Structural equality for JSON values
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values are deeply equal
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+	}
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a);
+		return (
+			keys.length === Object.keys(b).length &&
+			keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+		);
+	}
+	return false;
+}
+
+/**
+ * Returns the JSON Schema type name of a value
+ * @param value - The value to inspect
+ * @returns Type name as used by the "type" keyword
+ */
+function jsonTypeOf(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+/**
+ * Validates JSON values against a JSON Schema and collects every violation
+ */
+export class JsonSchemaValidator {
+	private readonly root: JsonSchema;
+
+	/**
+	 * @param schema - The JSON Schema to validate against
+	 * @throws SanitizerError if the schema is not an object or boolean
+	 */
+	constructor(schema: unknown) {
+		if (typeof schema !== 'boolean' && !isPlainObject(schema)) {
+			throw new SanitizerError('JSON Schema must be an object or a boolean', 'VALIDATION_ERROR');
+		}
+		this.root = schema;
+	}
+
+	/**
+	 * Validates a value against the schema
+	 * @param data - The value to validate
+	 * @returns List of violations (empty when the value is valid)
+	 */
+	validate(data: unknown): SchemaViolation[] {
+		const violations: SchemaViolation[] = [];
+		this.validateNode(data, this.root, '', '#', violations, 0);
+		return violations;
+	}
+
+	/**
+	 * Resolves a local $ref against the root schema
+	 * @param ref - Reference such as "#/definitions/item" or "#/$defs/item"
+	 * @returns Referenced schema
+	 * @throws SanitizerError if the reference is remote or cannot be resolved
+	 */
+	resolveRef(ref: string): JsonSchema {
+		if (!ref.startsWith('#')) {
+			throw new SanitizerError(
+				`Unsupported $ref '${ref}': only local references are supported`,
+				'VALIDATION_ERROR',
+			);
+		}
+
+		let current: unknown = this.root;
+		const pointer = decodeURIComponent(ref.slice(1));
+		if (pointer === '') return this.root;
+
+		for (const token of pointer.split('/').slice(1)) {
+			const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+			if (!isPlainObject(current) && !Array.isArray(current)) {
+				throw new SanitizerError(`Cannot resolve $ref '${ref}'`, 'VALIDATION_ERROR');
+			}
+			current = (current as Record<string, unknown>)[key];
+		}
+
+		if (typeof current !== 'boolean' && !isPlainObject(current)) {
+			throw new SanitizerError(`Cannot resolve $ref '${ref}'`, 'VALIDATION_ERROR');
+		}
+		return current;
+	}
+
+	/**
+	 * Checks a value against a sub-schema without recording violations
+	 * @param data - The value to check
+	 * @param schema - The sub-schema
+	 * @param depth - Current schema recursion depth
+	 * @returns True if the value is valid
+	 */
+	private isValid(data: unknown, schema: JsonSchema, depth: number): boolean {
+		const violations: SchemaViolation[] = [];
+		this.validateNode(data, schema, '', '#', violations, depth);
+		return violations.length === 0;
+	}
+
+	/**
+	 * Validates a value against a schema node, appending violations
+	 * @param data - The value to validate
+	 * @param schema - The schema node
+	 * @param instancePath - JSON Pointer of the value
+	 * @param schemaPath - JSON Pointer of the schema node
+	 * @param violations - Accumulator for violations
+	 * @param depth - Current schema recursion depth
+	 */
+	private validateNode(
+		data: unknown,
+		schema: JsonSchema,
+		instancePath: string,
+		schemaPath: string,
+		violations: SchemaViolation[],
+		depth: number,
+	): void {
+		if (depth > MAX_SCHEMA_DEPTH) {
+			throw new SanitizerError(
+				'JSON Schema is nested too deeply or contains a circular $ref',
+				'VALIDATION_ERROR',
+			);
+		}
+
+		const report = (keyword: string, message: string) => {
+			violations.push({ instancePath, schemaPath: `${schemaPath}/${keyword}`, keyword, message });
+		};
+
+		if (schema === true) return;
+		if (schema === false) {
+			violations.push({
+				instancePath,
+				schemaPath,
+				keyword: 'false schema',
+				message: 'boolean schema is false',
+			});
+			return;
+		}
+
+		if (typeof schema.$ref === 'string') {
+			this.validateNode(
+				data,
+				this.resolveRef(schema.$ref),
+				instancePath,
+				`${schemaPath}/$ref`,
+				violations,
+				depth + 1,
+			);
+		}
+
+		this.validateGeneric(data, schema, report);
+		if (typeof data === 'number') this.validateNumber(data, schema, report);
+		if (typeof data === 'string') this.validateString(data, schema, report);
+		if (Array.isArray(data)) {
+			this.validateArray(data, schema, instancePath, schemaPath, violations, depth, report);
+		}
+		if (isPlainObject(data)) {
+			this.validateObject(data, schema, instancePath, schemaPath, violations, depth, report);
+		}
+		this.validateCombinators(data, schema, instancePath, schemaPath, violations, depth, report);
+	}
+
+	/**
+	 * Validates type, enum and const keywords
+	 */
+	private validateGeneric(
+		data: unknown,
+		schema: Record<string, unknown>,
+		report: (keyword: string, message: string) => void,
+	): void {
+		if (schema.type !== undefined) {
+			const types = Array.isArray(schema.type)
+				? (schema.type as string[])
+				: [schema.type as string];
+			const actual = jsonTypeOf(data);
+			const matches = types.some(
+				(type) =>
+					type === actual ||
+					(type === 'integer' && typeof data === 'number' && Number.isInteger(data)),
+			);
+			if (!matches) report('type', `must be ${types.join(' or ')}`);
+		}
+
+		if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, data))) {
+			report('enum', 'must be equal to one of the allowed values');
+		}
+
+		if ('const' in schema && !deepEqual(schema.const, data)) {
+			report('const', 'must be equal to constant');
+		}
+	}
+
+	/**
+	 * Validates numeric range and multipleOf keywords
+	 */
+	private validateNumber(
+		data: number,
+		schema: Record<string, unknown>,
+		report: (keyword: string, message: string) => void,
+	): void {
+		if (typeof schema.minimum === 'number' && data < schema.minimum) {
+			report('minimum', `must be >= ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === 'number' && data > schema.maximum) {
+			report('maximum', `must be <= ${schema.maximum}`);
+		}
+		if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+			report('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+		}
+		if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+			report('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+		}
+		if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+			const quotient = data / schema.multipleOf;
+			if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+				report('multipleOf', `must be multiple of ${schema.multipleOf}`);
+			}
+		}
+	}
+
+	/**
+	 * Validates string length, pattern and format keywords
+	 */
+	private validateString(
+		data: string,
+		schema: Record<string, unknown>,
+		report: (keyword: string, message: string) => void,
+	): void {
+		const length = Array.from(data).length;
+		if (typeof schema.minLength === 'number' && length < schema.minLength) {
+			report('minLength', `must NOT have fewer than ${schema.minLength} characters`);
+		}
+		if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+			report('maxLength', `must NOT have more than ${schema.maxLength} characters`);
+		}
+		if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(data)) {
+			report('pattern', `must match pattern "${schema.pattern}"`);
+		}
+		if (typeof schema.format === 'string') {
+			const check = FORMAT_CHECKS[schema.format];
+			if (check && !check(data)) report('format', `must match format "${schema.format}"`);
+		}
+	}
+
+	/**
+	 * Validates array keywords (items, prefixItems, contains, size and uniqueness)
+	 */
+	private validateArray(
+		data: unknown[],
+		schema: Record<string, unknown>,
+		instancePath: string,
+		schemaPath: string,
+		violations: SchemaViolation[],
+		depth: number,
+		report: (keyword: string, message: string) => void,
+	): void {
+		// Draft-07 tuples use an "items" array; 2020-12 uses "prefixItems"
+		const tupleKeyword = Array.isArray(schema.prefixItems)
+			? 'prefixItems'
+			: Array.isArray(schema.items)
+				? 'items'
+				: undefined;
+		const tuple = tupleKeyword ? (schema[tupleKeyword] as JsonSchema[]) : [];
+		const restKeyword = tupleKeyword === 'items' ? 'additionalItems' : 'items';
+		const rest = schema[restKeyword] as JsonSchema | undefined;
+
+		data.forEach((item, index) => {
+			const itemPath = `${instancePath}/${index}`;
+			if (index < tuple.length) {
+				this.validateNode(
+					item,
+					tuple[index],
+					itemPath,
+					`${schemaPath}/${tupleKeyword}/${index}`,
+					violations,
+					depth + 1,
+				);
+			} else if (rest !== undefined && !Array.isArray(rest)) {
+				this.validateNode(
+					item,
+					rest,
+					itemPath,
+					`${schemaPath}/${restKeyword}`,
+					violations,
+					depth + 1,
+				);
+			}
+		});
+
+		if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+			report('minItems', `must NOT have fewer than ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+			report('maxItems', `must NOT have more than ${schema.maxItems} items`);
+		}
+		if (schema.uniqueItems === true) {
+			for (let i = 0; i < data.length; i++) {
+				const duplicate = data.findIndex((other, j) => j > i && deepEqual(data[i], other));
+				if (duplicate !== -1) {
+					report(
+						'uniqueItems',
+						`must NOT have duplicate items (items ## ${i} and ${duplicate} are identical)`,
+					);
+					break;
+				}
+			}
+		}
+		if (schema.contains !== undefined) {
+			const matches = data.filter((item) =>
+				this.isValid(item, schema.contains as JsonSchema, depth + 1),
+			).length;
+			const minContains = typeof schema.minContains === 'number' ? schema.minContains : 1;
+			if (matches < minContains) {
+				report('contains', `must contain at least ${minContains} valid item(s)`);
+			}
+			if (typeof schema.maxContains === 'number' && matches > schema.maxContains) {
+				report('maxContains', `must contain at most ${schema.maxContains} valid item(s)`);
+			}
+		}
+	}
+
+	/**
+	 * Validates object keywords (properties, required, additional properties, dependencies)
+	 */
+	private validateObject(
+		data: Record<string, unknown>,
+		schema: Record<string, unknown>,
+		instancePath: string,
+		schemaPath: string,
+		violations: SchemaViolation[],
+		depth: number,
+		report: (keyword: string, message: string) => void,
+	): void {
+		const properties = isPlainObject(schema.properties)
+			? (schema.properties as Record<string, JsonSchema>)
+			: {};
+		const patternProperties = isPlainObject(schema.patternProperties)
+			? (schema.patternProperties as Record<string, JsonSchema>)
+			: {};
+		const keys = Object.keys(data);
+
+		if (Array.isArray(schema.required)) {
+			for (const name of schema.required as string[]) {
+				if (!Object.prototype.hasOwnProperty.call(data, name)) {
+					report('required', `must have required property '${name}'`);
+				}
+			}
+		}
+
+		for (const key of keys) {
+			const propertyPath = `${instancePath}/${escapePointer(key)}`;
+			let evaluated = false;
+
+			if (Object.prototype.hasOwnProperty.call(properties, key)) {
+				evaluated = true;
+				this.validateNode(
+					data[key],
+					properties[key],
+					propertyPath,
+					`${schemaPath}/properties/${escapePointer(key)}`,
+					violations,
+					depth + 1,
+				);
+			}
+
+			for (const [pattern, subSchema] of Object.entries(patternProperties)) {
+				if (new RegExp(pattern, 'u').test(key)) {
+					evaluated = true;
+					this.validateNode(
+						data[key],
+						subSchema,
+						propertyPath,
+						`${schemaPath}/patternProperties/${escapePointer(pattern)}`,
+						violations,
+						depth + 1,
+					);
+				}
+			}
+
+			if (!evaluated && schema.additionalProperties !== undefined) {
+				if (schema.additionalProperties === false) {
+					report('additionalProperties', `must NOT have additional property '${key}'`);
+				} else {
+					this.validateNode(
+						data[key],
+						schema.additionalProperties as JsonSchema,
+						propertyPath,
+						`${schemaPath}/additionalProperties`,
+						violations,
+						depth + 1,
+					);
+				}
+			}
+
+			if (
+				schema.propertyNames !== undefined &&
+				!this.isValid(key, schema.propertyNames as JsonSchema, depth + 1)
+			) {
+				report('propertyNames', `property name '${key}' is invalid`);
+			}
+		}
+
+		if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+			report('minProperties', `must NOT have fewer than ${schema.minProperties} properties`);
+		}
+		if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+			report('maxProperties', `must NOT have more than ${schema.maxProperties} properties`);
+		}
+
+		// "dependencies" (draft-07) mixes the two forms later split into dependentRequired/dependentSchemas
+		const dependencies = {
+			...(isPlainObject(schema.dependencies) ? schema.dependencies : {}),
+			...(isPlainObject(schema.dependentRequired) ? schema.dependentRequired : {}),
+			...(isPlainObject(schema.dependentSchemas) ? schema.dependentSchemas : {}),
+		};
+		for (const [trigger, dependency] of Object.entries(dependencies)) {
+			if (!Object.prototype.hasOwnProperty.call(data, trigger)) continue;
+			if (Array.isArray(dependency)) {
+				for (const name of dependency as string[]) {
+					if (!Object.prototype.hasOwnProperty.call(data, name)) {
+						report(
+							'dependentRequired',
+							`must have property '${name}' when property '${trigger}' is present`,
+						);
+					}
+				}
+			} else {
+				this.validateNode(
+					data,
+					dependency as JsonSchema,
+					instancePath,
+					`${schemaPath}/dependentSchemas/${escapePointer(trigger)}`,
+					violations,
+					depth + 1,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Validates allOf, anyOf, oneOf, not and if/then/else keywords
+	 */
+	private validateCombinators(
+		data: unknown,
+		schema: Record<string, unknown>,
+		instancePath: string,
+		schemaPath: string,
+		violations: SchemaViolation[],
+		depth: number,
+		report: (keyword: string, message: string) => void,
+	): void {
+		if (Array.isArray(schema.allOf)) {
+			(schema.allOf as JsonSchema[]).forEach((subSchema, index) => {
+				this.validateNode(
+					data,
+					subSchema,
+					instancePath,
+					`${schemaPath}/allOf/${index}`,
+					violations,
+					depth + 1,
+				);
+			});
+		}
+
+		if (Array.isArray(schema.anyOf)) {
+			const matched = (schema.anyOf as JsonSchema[]).some((subSchema) =>
+				this.isValid(data, subSchema, depth + 1),
+			);
+			if (!matched) report('anyOf', 'must match a schema in anyOf');
+		}
+
+		if (Array.isArray(schema.oneOf)) {
+			const matches = (schema.oneOf as JsonSchema[]).filter((subSchema) =>
+				this.isValid(data, subSchema, depth + 1),
+			).length;
+			if (matches !== 1) report('oneOf', 'must match exactly one schema in oneOf');
+		}
+
+		if (schema.not !== undefined && this.isValid(data, schema.not as JsonSchema, depth + 1)) {
+			report('not', 'must NOT be valid');
+		}
+
+		if (schema.if !== undefined) {
+			const branch = this.isValid(data, schema.if as JsonSchema, depth + 1) ? 'then' : 'else';
+			const branchSchema = schema[branch] as JsonSchema | undefined;
+			if (branchSchema !== undefined && !this.isValid(data, branchSchema, depth + 1)) {
+				report('if', `must match "${branch}" schema`);
+				this.validateNode(
+					data,
+					branchSchema,
+					instancePath,
+					`${schemaPath}/${branch}`,
+					violations,
+					depth + 1,
+				);
+			}
+		}
+	}
+}
@@ -0,0 +1,146 @@
+/**
+ * String-aware scanner for cleanups that must never touch string literals
+ */
+
+/**
+ * Which cleanups to apply during a scan
+ */
+export interface ScanOptions {
+	removeComments: boolean;
+	removeTrailingCommas: boolean;
+}
+
+/**
+ * Single-pass scanner that tracks string and escape state so that comments and
+ * trailing commas are only recognised outside string literals
+ */
+export class JsonTextScanner {
+	/**
+	 * Removes // and /* *\/ comments that appear outside string literals
+	 * @param input - The input string
+	 * @returns String without comments
+	 */
+	removeComments(input: string): string {
+		return this.strip(input, { removeComments: true, removeTrailingCommas: false });
+	}
+
+	/**
+	 * Removes commas that are directly followed (ignoring whitespace and comments) by } or ]
+	 * @param input - The input string
+	 * @returns String without trailing commas
+	 */
+	removeTrailingCommas(input: string): string {
+		return this.strip(input, { removeComments: false, removeTrailingCommas: true });
+	}
+
+	/**
+	 * Applies the selected cleanups in a single pass over the input
+	 * @param input - The input string
+	 * @param options - Cleanups to apply
+	 * @returns Cleaned string
+	 */
+	strip(input: string, options: ScanOptions): string {
+		let output = '';
+		let position = 0;
+
+		while (position < input.length) {
+			const char = input[position];
+
+			if (char === '"' || char === "'") {
+				const end = this.skipString(input, position);
+				output += input.slice(position, end);
+				position = end;
+				continue;
+			}
+
+			const commentEnd = this.skipComment(input, position);
+			if (commentEnd !== position) {
+				if (!options.removeComments) output += input.slice(position, commentEnd);
+				position = commentEnd;
+				continue;
+			}
+
+			if (char === ',' && options.removeTrailingCommas && this.isTrailingComma(input, position)) {
+				position++;
+				continue;
+			}
+
+			output += char;
+			position++;
+		}
+
+		return output;
+	}
+
+	/**
+	 * Finds the end of a string literal, honouring backslash escapes.
+	 * Unterminated strings run to the end of the input.
+	 * @param input - The input string
+	 * @param start - Offset of the opening quote
+	 * @returns Offset just past the closing quote
+	 */
+	skipString(input: string, start: number): number {
+		const quote = input[start];
+
+		for (let i = start + 1; i < input.length; i++) {
+			if (input[i] === '\\') {
+				i++;
+			} else if (input[i] === quote) {
+				return i + 1;
+			}
+		}
+
+		return input.length;
+	}
+
+	/**
+	 * Finds the end of a comment starting at the given offset.
+	 * Line comments end before the newline so line structure is preserved.
+	 * @param input - The input string
+	 * @param start - Offset to check for a comment
+	 * @returns Offset just past the comment, or start if there is no comment there
+	 */
+	skipComment(input: string, start: number): number {
+		if (input[start] !== '/') return start;
+
+		if (input[start + 1] === '/') {
+			let end = start + 2;
+			while (end < input.length && input[end] !== '\n' && input[end] !== '\r') end++;
+			return end;
+		}
+
+		if (input[start + 1] === '*') {
+			const close = input.indexOf('*/', start + 2);
+			return close === -1 ? input.length : close + 2;
+		}
+
+		return start;
+	}
+
+	/**
+	 * Checks whether the comma at the given offset is followed by a closing bracket
+	 * @param input - The input string
+	 * @param commaIndex - Offset of the comma
+	 * @returns True if only whitespace and comments separate the comma from } or ]
+	 */
+	private isTrailingComma(input: string, commaIndex: number): boolean {
+		let position = commaIndex + 1;
+
+		while (position < input.length) {
+			if (/\s/.test(input[position])) {
+				position++;
+				continue;
+			}
+
+			const commentEnd = this.skipComment(input, position);
+			if (commentEnd !== position) {
+				position = commentEnd;
+				continue;
+			}
+
+			return input[position] === '}' || input[position] === ']';
+		}
+
+		return false;
+	}
+}
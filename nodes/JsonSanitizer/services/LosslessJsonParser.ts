@@ -0,0 +1,365 @@
+/**
+ * JSON parser that never rounds numbers or silently drops repeated keys
+ */
+
+import { DuplicateKeyPolicy } from '../types';
+import { DuplicateKey } from '../types/enhanced';
+import { JsonFormatter } from './JsonFormatter';
+import { formatFieldPath, PathSegment } from './fieldPath';
+
+/**
+ * Settings for a lossless parse
+ */
+export interface LosslessParseOptions {
+	/** Keep numbers a JavaScript number would change as strings (defaults to true) */
+	preserveNumbers?: boolean;
+	/** Which value a repeated key keeps (defaults to 'last', as in JSON.parse) */
+	duplicateKeys?: Exclude<DuplicateKeyPolicy, 'error'>;
+}
+
+/**
+ * Result of a lossless parse
+ */
+export interface LosslessParseResult {
+	value: unknown;
+	/** Paths of numbers kept as strings because a JavaScript number would change them */
+	preservedPaths: string[];
+	/** Keys that appeared more than once in the same object, in the order they first appear */
+	duplicateKeys: DuplicateKey[];
+}
+
+/**
+ * Syntax error raised by the parser, with the offset it was found at
+ */
+export class JsonSyntaxError extends Error {
+	/** Offset of the offending character (the input length if the input ended early) */
+	readonly position: number;
+	/** What the parser expected, such as "',' or '}'" */
+	readonly expected: string;
+	/** What it found instead, such as "'o'" or "end of input" */
+	readonly found: string;
+
+	constructor(message: string, position: number, expected: string, found: string) {
+		super(message);
+		this.name = 'JsonSyntaxError';
+		this.position = position;
+		this.expected = expected;
+		this.found = found;
+	}
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: Array<[string, unknown]> = [
+	['true', true],
+	['false', false],
+	['null', null],
+];
+
+const formatter = new JsonFormatter();
+
+/**
+ * Strict JSON parser that accepts exactly what JSON.parse accepts, but keeps numbers whose
+ * value a JavaScript number cannot represent (unsafe integers such as Snowflake IDs,
+ * high-precision decimals, out-of-range exponents) as strings with their original digits,
+ * and reports keys that appear more than once in an object
+ */
+export class LosslessJsonParser {
+	private source = '';
+	private position = 0;
+	private preservedPaths: string[] = [];
+	/** Repeated keys with the offset of their first occurrence; objects close innermost first */
+	private duplicateKeys: Array<{ offset: number; duplicate: DuplicateKey }> = [];
+	private settings: Required<LosslessParseOptions> = {
+		preserveNumbers: true,
+		duplicateKeys: 'last',
+	};
+
+	/**
+	 * Parses JSON text
+	 * @param input - JSON text
+	 * @param options - Number preservation and duplicate key settings
+	 * @returns Parsed value, the paths of numbers kept as strings, and the repeated keys
+	 * @throws JsonSyntaxError describing the position of the first syntax error
+	 */
+	parse(input: string, options: LosslessParseOptions = {}): LosslessParseResult {
+		this.source = input;
+		this.position = 0;
+		this.preservedPaths = [];
+		this.duplicateKeys = [];
+		this.settings = {
+			preserveNumbers: options.preserveNumbers ?? true,
+			duplicateKeys: options.duplicateKeys ?? 'last',
+		};
+
+		const value = this.readValue([]);
+		this.skipWhitespace();
+		if (this.position < this.source.length) this.fail('unexpected content after the value', 'end of input');
+
+		return {
+			value,
+			preservedPaths: this.preservedPaths,
+			duplicateKeys: this.duplicateKeys
+				.sort((a, b) => a.offset - b.offset)
+				.map(({ duplicate }) => duplicate),
+		};
+	}
+
+	/**
+	 * Serializes a value like JSON.stringify, writing preserved numbers back as raw digits
+	 * @param value - The value to serialize
+	 * @param preservedPaths - Paths of strings that hold preserved numbers
+	 * @param indent - Spaces per indentation level (0 for compact output)
+	 * @returns JSON text
+	 */
+	stringify(value: unknown, preservedPaths: string[], indent = 2): string {
+		return formatter.format(
+			value,
+			indent > 0 ? { style: 'pretty', indent } : { style: 'minified' },
+			preservedPaths,
+		);
+	}
+
+	/**
+	 * Reads any JSON value at the current position
+	 * @param path - Location of the value
+	 * @returns The parsed value
+	 */
+	private readValue(path: PathSegment[]): unknown {
+		this.skipWhitespace();
+		const char = this.source[this.position];
+
+		if (char === '{') return this.readObject(path);
+		if (char === '[') return this.readArray(path);
+		if (char === '"') return this.readString();
+		if (char === '-' || /\d/.test(char ?? '')) return this.readNumber(path);
+
+		for (const [literal, value] of LITERALS) {
+			if (this.source.startsWith(literal, this.position)) {
+				this.position += literal.length;
+				return value;
+			}
+		}
+
+		return this.fail(char === undefined ? 'unexpected end of input' : `unexpected '${char}'`, 'a value');
+	}
+
+	/**
+	 * Reads an object; keys are defined as own properties, so "__proto__" behaves as in JSON.parse.
+	 * Repeated keys are resolved with the duplicate key policy and recorded
+	 * @param path - Location of the object
+	 * @returns The parsed object
+	 */
+	private readObject(path: PathSegment[]): Record<string, unknown> {
+		const result: Record<string, unknown> = {};
+		// Occurrence count and offset of the first occurrence of every key
+		const occurrences = new Map<string, { count: number; offset: number }>();
+		this.position++;
+		this.skipWhitespace();
+		if (this.consume('}')) return result;
+
+		do {
+			this.skipWhitespace();
+			if (this.source[this.position] !== '"') this.fail('expected a string key', 'a string key');
+			const offset = this.position;
+			const key = this.readString();
+			this.skipWhitespace();
+			this.expect(':', "':'");
+			const value = this.readValue([...path, key]);
+			const count = (occurrences.get(key)?.count ?? 0) + 1;
+			occurrences.set(key, { count, offset: occurrences.get(key)?.offset ?? offset });
+
+			if (count === 1 || this.settings.duplicateKeys === 'last') {
+				this.defineKey(result, key, value);
+			} else if (this.settings.duplicateKeys === 'array') {
+				if (count === 2) {
+					this.defineKey(result, key, [result[key], value]);
+				} else {
+					(result[key] as unknown[]).push(value);
+				}
+			}
+			this.skipWhitespace();
+		} while (this.consume(','));
+
+		this.expect('}', "',' or '}'");
+
+		for (const [key, { count, offset }] of occurrences) {
+			if (count > 1) {
+				this.duplicateKeys.push({
+					offset,
+					duplicate: { path: formatFieldPath([...path, key]), occurrences: count },
+				});
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Defines an own enumerable property, bypassing setters such as "__proto__"
+	 * @param target - Object to define the property on
+	 * @param key - Property name
+	 * @param value - Property value
+	 */
+	private defineKey(target: Record<string, unknown>, key: string, value: unknown): void {
+		Object.defineProperty(target, key, {
+			value,
+			enumerable: true,
+			writable: true,
+			configurable: true,
+		});
+	}
+
+	/**
+	 * Reads an array
+	 * @param path - Location of the array
+	 * @returns The parsed array
+	 */
+	private readArray(path: PathSegment[]): unknown[] {
+		const result: unknown[] = [];
+		this.position++;
+		this.skipWhitespace();
+		if (this.consume(']')) return result;
+
+		do {
+			result.push(this.readValue([...path, result.length]));
+			this.skipWhitespace();
+		} while (this.consume(','));
+
+		this.expect(']', "',' or ']'");
+		return result;
+	}
+
+	/**
+	 * Reads a string, validating it before handing it to JSON.parse for decoding
+	 * @returns The string's value
+	 */
+	private readString(): string {
+		const start = this.position++;
+
+		while (this.source[this.position] !== '"') {
+			const char = this.source[this.position];
+			if (char === undefined) this.fail('unterminated string', "'\"'");
+			if (char < ' ') this.fail('unescaped control character in string', 'an escaped character');
+
+			if (char === '\\') {
+				const escape = this.source[this.position + 1] ?? '';
+				if (escape === 'u') {
+					if (!/^[\da-fA-F]{4}$/.test(this.source.slice(this.position + 2, this.position + 6))) {
+						this.position += 2;
+						this.fail('invalid unicode escape', 'four hex digits');
+					}
+					this.position += 6;
+					continue;
+				}
+				if (!'"\\/bfnrt'.includes(escape) || escape === '') {
+					this.position++;
+					this.fail('invalid escape', 'an escape character');
+				}
+				this.position += 2;
+				continue;
+			}
+
+			this.position++;
+		}
+
+		this.position++;
+		return JSON.parse(this.source.slice(start, this.position));
+	}
+
+	/**
+	 * Reads a number, keeping it as a string when a JavaScript number would change its value
+	 * @param path - Location of the number
+	 * @returns The number, or its original digits
+	 */
+	private readNumber(path: PathSegment[]): number | string {
+		NUMBER_PATTERN.lastIndex = this.position;
+		const match = NUMBER_PATTERN.exec(this.source);
+		if (!match) return this.fail('invalid number', 'a digit');
+
+		this.position += match[0].length;
+		const text = match[0];
+		const value = Number(text);
+
+		if (!this.settings.preserveNumbers) return value;
+		if (this.normalizeNumber(text) === this.normalizeNumber(String(value))) return value;
+
+		this.preservedPaths.push(formatFieldPath(path));
+		return text;
+	}
+
+	/**
+	 * Reduces a number's text to its significant digits and exponent, so that "1.50" and "1.5e0"
+	 * compare equal while "9007199254740993" and "9007199254740992" do not
+	 * @param text - Number text
+	 * @returns Normalized form, or undefined for text that is not a finite number
+	 */
+	private normalizeNumber(text: string): string | undefined {
+		const match = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i.exec(text);
+		if (!match) return undefined;
+
+		const [, sign, integer, fraction = '', exponent = '0'] = match;
+		let digits = (integer + fraction).replace(/^0+/, '');
+		let power = Number(exponent) - fraction.length;
+		if (digits === '') return '0';
+
+		while (digits.endsWith('0')) {
+			digits = digits.slice(0, -1);
+			power++;
+		}
+
+		return `${sign}${digits}e${power}`;
+	}
+
+	/**
+	 * Consumes a character if it is next
+	 * @param char - The character to consume
+	 * @returns True if it was consumed
+	 */
+	private consume(char: string): boolean {
+		if (this.source[this.position] !== char) return false;
+		this.position++;
+		return true;
+	}
+
+	/**
+	 * Consumes an expected character
+	 * @param char - The expected character
+	 * @param expected - Description of everything that would have been valid here
+	 */
+	private expect(char: string, expected: string): void {
+		if (this.consume(char)) return;
+
+		const found = this.source[this.position];
+		this.fail(
+			found === undefined
+				? `expected ${expected} before end of input`
+				: `expected ${expected} but found '${found}'`,
+			expected,
+		);
+	}
+
+	/**
+	 * Skips JSON whitespace (space, tab, line feed, carriage return)
+	 */
+	private skipWhitespace(): void {
+		while (/[ \t\n\r]/.test(this.source[this.position] ?? '')) this.position++;
+	}
+
+	/**
+	 * Throws a parse error for the current position
+	 * @param reason - What went wrong
+	 * @param expected - What would have been valid at the position
+	 * @throws JsonSyntaxError describing the position
+	 */
+	private fail(reason: string, expected: string): never {
+		const char = this.source[this.position];
+		const printable = char < ' ' ? JSON.stringify(char).slice(1, -1) : char;
+		const found = char === undefined ? 'end of input' : `'${printable}'`;
+		throw new JsonSyntaxError(
+			`Invalid JSON at position ${this.position}: ${reason}`,
+			this.position,
+			expected,
+			found,
+		);
+	}
+}
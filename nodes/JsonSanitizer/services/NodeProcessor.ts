@@ -2,22 +2,73 @@
  * Processor for handling n8n node execution logic
  */
 
-import { IExecuteFunctions, INodeExecutionData, NodeOperationError, GenericValue } from 'n8n-workflow';
+import {
+	IExecuteFunctions,
+	INodeExecutionData,
+	NodeOperationError,
+	IDataObject,
+	deepCopy,
+} from 'n8n-workflow';
+import { BinaryDecoder } from './BinaryDecoder';
+import { JsonFormatter } from './JsonFormatter';
 import { JsonSanitizationService } from './JsonSanitizationService';
+import { JsonSchemaValidator } from './JsonSchemaValidator';
+import { DEFAULT_SAFETY_LIMITS, SafetyGuard } from './SafetyGuard';
+import { SanitizerError } from './SanitizerError';
+import { SchemaInferrer } from './SchemaInferrer';
+import {
+	FieldMatch,
+	FieldPathResolution,
+	formatFieldPath,
+	parseFieldPath,
+	PathSegment,
+	resolveFieldPath,
+	setFieldValue,
+} from './fieldPath';
+import { isPlainObject } from './jsonValue';
 import {
 	NodeParameters,
 	ProcessingContext,
 	ProcessingResult,
 	OutputMode,
+	OutputPlacement,
+	OutputTarget,
+	FileFormat,
+	FormatOptions,
 	ErrorHandlingMode,
+	Operation,
 	SanitizeResult,
+	ExtractionStrategy,
+	InputMode,
+	InputSource,
+	BinaryEncoding,
+	NodeOptions,
+	SanitizeOptions,
 } from '../types';
+import { ProcessingError } from '../types/enhanced';
+
+/**
+ * Where a processing failure happened
+ */
+interface ErrorLocation {
+	/** Position of the failed document within a multi-document input */
+	documentIndex?: number;
+	/** Location of the failed value when the input field contains a wildcard */
+	fieldPath?: string;
+	/** The value that could not be processed */
+	originalInput?: unknown;
+}
 
 /**
  * Processor responsible for n8n-specific execution logic
  */
 export class NodeProcessor {
 	private readonly sanitizationService: JsonSanitizationService;
+	private readonly schemaValidators = new Map<string, JsonSchemaValidator>();
+	private readonly binaryDecoder = new BinaryDecoder();
+	private readonly safetyGuard = new SafetyGuard();
+	private readonly schemaInferrer = new SchemaInferrer();
+	private readonly formatter = new JsonFormatter();
 
 	constructor() {
 		this.sanitizationService = new JsonSanitizationService();
@@ -27,43 +78,152 @@ export class NodeProcessor {
 	 * Processes all input items
 	 * @param executeFunctions - N8N execution context
 	 * @param items - Input data items to process
-	 * @returns Array of processed items
+	 * @returns Processed items for each node output: the main output, followed by the failed
+	 * output when errors are routed to it. The Infer Schema operation puts a single item with the
+	 * schema of every sanitized value first on the main output.
 	 */
 	async processItems(
 		executeFunctions: IExecuteFunctions,
 		items: INodeExecutionData[]
-	): Promise<INodeExecutionData[]> {
+	): Promise<INodeExecutionData[][]> {
 		const results: INodeExecutionData[] = [];
+		const failed: INodeExecutionData[] = [];
+		const inferSchema = executeFunctions.getNodeParameter('operation', 0, 'sanitize') === 'inferSchema';
+		const samples: unknown[] = [];
 
 		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
 			const context = this.createProcessingContext(executeFunctions, items[itemIndex], itemIndex);
-			const result = await this.processItem(context);
-
-			if (result.success && result.data) {
-				results.push(result.data);
-			} else if (result.error) {
-				if (context.parameters.errorHandling === 'stop') {
-					this.handleError(executeFunctions, result.error, context.parameters.errorHandling);
-				} else {
-					// For 'continue' mode, add error information to the output
-					const errorItem: INodeExecutionData = {
-						json: {
-							[context.parameters.outputField]: null,
-							error: {
-								message: result.error.message,
-								itemIndex: result.error.itemIndex,
-								type: 'JSON_SANITIZATION_ERROR',
-							},
-							...(context.parameters.keepOriginal ? context.item.json : {}),
-						},
-						pairedItem: { item: itemIndex },
-					};
-					results.push(errorItem);
+			const itemResults = await this.processItem(executeFunctions, context);
+
+			for (const result of itemResults) {
+				if (result.success && result.data) {
+					if (inferSchema) {
+						samples.push(result.value);
+					} else {
+						results.push(result.data);
+					}
+				} else if (result.error) {
+					if (context.parameters.errorHandling === 'stop') {
+						this.handleError(executeFunctions, result.error, context.parameters.errorHandling);
+					} else if (context.parameters.errorHandling === 'output') {
+						failed.push(this.createFailedItem(result.error, context, result.documentIndex));
+					} else {
+						// For 'continue' mode, add error information to the output
+						results.push(this.createErrorItem(result.error, context, result.documentIndex));
+					}
 				}
 			}
 		}
 
-		return results;
+		if (inferSchema) {
+			const typeName = executeFunctions.getNodeParameter('typeName', 0, 'Item') as string;
+			results.unshift(this.createSchemaItem(samples, typeName, items.length));
+		}
+
+		// The number of outputs follows the node-level setting, so it is stable even without items
+		const routesFailed = executeFunctions.getNodeParameter('errorHandling', 0, 'stop') === 'output';
+		return routesFailed ? [results, failed] : [results];
+	}
+
+	/**
+	 * Creates the item holding the schema inferred from every sanitized value
+	 * @param samples - Sanitized values of the items that succeeded
+	 * @param typeName - Name of the root TypeScript type
+	 * @param itemCount - Number of input items, all of which the schema item is paired with
+	 * @returns Item with the JSON Schema, the TypeScript declarations and the number of samples
+	 */
+	private createSchemaItem(samples: unknown[], typeName: string, itemCount: number): INodeExecutionData {
+		const schema = this.schemaInferrer.infer(samples);
+
+		return {
+			json: {
+				schema: schema as IDataObject,
+				typescript: this.schemaInferrer.toTypeScript(schema, typeName),
+				sampleCount: samples.length,
+			},
+			pairedItem: Array.from({ length: itemCount }, (_, item) => ({ item })),
+		};
+	}
+
+	/**
+	 * Creates the item that takes the place of a failed result in 'continue' mode
+	 * @param error - Structured error information
+	 * @param context - Processing context containing item and parameters
+	 * @param documentIndex - Position of the failed document within a multi-document input
+	 * @returns Item shaped like a successful result, with null at the output field and the error
+	 */
+	private createErrorItem(
+		error: ProcessingError,
+		context: ProcessingContext,
+		documentIndex?: number,
+	): INodeExecutionData {
+		const { item, parameters } = context;
+		// Start from the same item a successful result would be written into
+		const json: IDataObject =
+			parameters.outputPlacement === 'field' && !parameters.keepOriginal ? {} : deepCopy(item.json);
+
+		if (
+			parameters.outputTarget === 'json' &&
+			(parameters.outputPlacement === 'field' || parameters.outputPlacement === 'deepMerge')
+		) {
+			try {
+				setFieldValue(json, this.getOutputPath(parameters.outputField), null);
+			} catch {
+				// An Output Field that cannot be written is what the error already reports
+			}
+		}
+
+		if (documentIndex !== undefined) json.documentIndex = documentIndex;
+		json.error = {
+			message: error.message,
+			itemIndex: error.itemIndex,
+			type: error.type,
+			...(error.fieldPath !== undefined ? { fieldPath: error.fieldPath } : {}),
+			...(error.violations ? { violations: error.violations as unknown as IDataObject[] } : {}),
+			...(error.duplicateKeys ? { duplicateKeys: error.duplicateKeys as unknown as IDataObject[] } : {}),
+			...(error.parseError ? { parseError: error.parseError as unknown as IDataObject } : {}),
+			...(error.tierErrors ? { tierErrors: error.tierErrors as unknown as IDataObject[] } : {}),
+		};
+
+		return {
+			json,
+			pairedItem: { item: context.itemIndex },
+		};
+	}
+
+	/**
+	 * Creates the item sent to the failed output for an item that could not be processed
+	 * @param error - Structured error information
+	 * @param context - Processing context containing item and parameters
+	 * @param documentIndex - Position of the failed document within a multi-document input
+	 * @returns Item holding the error, with the source item's fields when Keep Original Data is on
+	 */
+	private createFailedItem(
+		error: ProcessingError,
+		context: ProcessingContext,
+		documentIndex?: number,
+	): INodeExecutionData {
+		const errorData: IDataObject = {
+			message: error.message,
+			itemIndex: error.itemIndex,
+			type: error.type,
+			...(error.fieldPath !== undefined ? { fieldPath: error.fieldPath } : {}),
+			...(error.originalInput !== undefined ? { originalInput: error.originalInput as IDataObject[string] } : {}),
+			...(error.violations ? { violations: error.violations as unknown as IDataObject[] } : {}),
+			...(error.duplicateKeys ? { duplicateKeys: error.duplicateKeys as unknown as IDataObject[] } : {}),
+			...(error.parseError ? { parseError: error.parseError as unknown as IDataObject } : {}),
+			...(error.tierErrors ? { tierErrors: error.tierErrors as unknown as IDataObject[] } : {}),
+		};
+
+		return {
+			json: {
+				...(context.parameters.keepOriginal ? context.item.json : {}),
+				error: errorData,
+				...(documentIndex !== undefined ? { documentIndex } : {}),
+			},
+			...(context.parameters.keepOriginal && context.item.binary ? { binary: context.item.binary } : {}),
+			pairedItem: { item: context.itemIndex },
+		};
 	}
 
 	/**
@@ -79,13 +239,46 @@ export class NodeProcessor {
 		itemIndex: number
 	): ProcessingContext {
 		const parameters: NodeParameters = {
-			inputField: executeFunctions.getNodeParameter('inputField', itemIndex) as string,
-			outputMode: executeFunctions.getNodeParameter('outputMode', itemIndex) as OutputMode,
-			outputField: executeFunctions.getNodeParameter('outputField', itemIndex) as string,
-			keepOriginal: executeFunctions.getNodeParameter('keepOriginal', itemIndex) as boolean,
+			operation: executeFunctions.getNodeParameter('operation', itemIndex, 'sanitize') as Operation,
+			inputSource: executeFunctions.getNodeParameter('inputSource', itemIndex, 'json') as InputSource,
+			inputField: executeFunctions.getNodeParameter('inputField', itemIndex, '') as string,
+			binaryProperty: executeFunctions.getNodeParameter('binaryProperty', itemIndex, 'data') as string,
+			binaryEncoding: executeFunctions.getNodeParameter('binaryEncoding', itemIndex, 'auto') as BinaryEncoding,
+			outputMode: executeFunctions.getNodeParameter('outputMode', itemIndex, 'parsed') as OutputMode,
+			outputTarget: executeFunctions.getNodeParameter('outputTarget', itemIndex, 'json') as OutputTarget,
+			outputPlacement: executeFunctions.getNodeParameter('outputPlacement', itemIndex, 'field') as OutputPlacement,
+			outputField: executeFunctions.getNodeParameter('outputField', itemIndex, 'sanitized') as string,
+			extractionMode: executeFunctions.getNodeParameter('extractionMode', itemIndex, 'none') as ExtractionStrategy,
+			inputMode: executeFunctions.getNodeParameter('inputMode', itemIndex, 'single') as InputMode,
+			outputBinaryProperty: executeFunctions.getNodeParameter('outputBinaryProperty', itemIndex, 'data') as string,
+			outputFileName: executeFunctions.getNodeParameter('outputFileName', itemIndex, 'sanitized.json') as string,
+			outputFileFormat: executeFunctions.getNodeParameter('outputFileFormat', itemIndex, 'pretty') as FileFormat,
+			keepOriginal: executeFunctions.getNodeParameter('keepOriginal', itemIndex, false) as boolean,
 			errorHandling: executeFunctions.getNodeParameter('errorHandling', itemIndex) as ErrorHandlingMode,
+			validateSchema: executeFunctions.getNodeParameter('validateSchema', itemIndex, false) as boolean,
+			jsonSchema: '',
+			coerceToSchema: false,
+			removeAdditionalProperties: false,
+			options: executeFunctions.getNodeParameter('options', itemIndex, {}) as NodeOptions,
 		};
 
+		if (parameters.operation === 'inferSchema') {
+			// Inference needs the parsed values, so the output settings (hidden for it) are ignored
+			parameters.outputMode = 'parsed';
+			parameters.outputTarget = 'json';
+			parameters.outputPlacement = 'field';
+		}
+
+		if (parameters.validateSchema) {
+			parameters.jsonSchema = executeFunctions.getNodeParameter('jsonSchema', itemIndex) as string | object;
+			parameters.coerceToSchema = executeFunctions.getNodeParameter('coerceToSchema', itemIndex, false) as boolean;
+			parameters.removeAdditionalProperties = executeFunctions.getNodeParameter(
+				'removeAdditionalProperties',
+				itemIndex,
+				false,
+			) as boolean;
+		}
+
 		return {
 			item,
 			itemIndex,
@@ -95,26 +288,262 @@ export class NodeProcessor {
 
 	/**
 	 * Processes a single item through sanitization pipeline
+	 * @param executeFunctions - N8N execution context
+	 * @param context - Processing context containing item and parameters
+	 * @returns Processing results with success/error status, one per document in the item
+	 */
+	private async processItem(
+		executeFunctions: IExecuteFunctions,
+		context: ProcessingContext,
+	): Promise<ProcessingResult[]> {
+		let inputValue: unknown;
+
+		if (context.parameters.inputSource === 'binary') {
+			try {
+				inputValue = await this.readBinaryInput(executeFunctions, context);
+			} catch (error) {
+				return [this.createErrorResult(error, context)];
+			}
+		} else {
+			let resolution: FieldPathResolution;
+			try {
+				resolution = this.resolveInputField(context);
+			} catch (error) {
+				return [this.createErrorResult(error, context)];
+			}
+
+			context.inputPath = resolution.wildcardScope?.path ?? resolution.matches[0].path;
+
+			if (resolution.wildcardScope) {
+				return [
+					await this.processWildcardMatches(
+						executeFunctions,
+						resolution.matches,
+						resolution.wildcardScope,
+						context,
+					),
+				];
+			}
+
+			inputValue = resolution.matches[0].value;
+		}
+
+		if (context.parameters.inputMode === 'multiple' && typeof inputValue === 'string') {
+			let documents: string[];
+			try {
+				documents = this.sanitizationService.splitDocuments(
+					inputValue,
+					this.createSanitizeOptions(context.parameters),
+				);
+			} catch (error) {
+				return [this.createErrorResult(error, context, { originalInput: inputValue })];
+			}
+			if (documents.length === 0) {
+				return [
+					this.createErrorResult(new Error('No JSON documents found in input'), context, {
+						originalInput: inputValue,
+					}),
+				];
+			}
+			const results: ProcessingResult[] = [];
+			for (const [documentIndex, document] of documents.entries()) {
+				results.push(await this.processValue(executeFunctions, document, context, documentIndex));
+			}
+			return results;
+		}
+
+		return [await this.processValue(executeFunctions, inputValue, context)];
+	}
+
+	/**
+	 * Sanitizes, validates and formats a single input value
+	 * @param executeFunctions - N8N execution context
+	 * @param inputValue - The value to process
 	 * @param context - Processing context containing item and parameters
+	 * @param documentIndex - Position of the document within a multi-document input
 	 * @returns Processing result with success/error status
 	 */
-	private async processItem(context: ProcessingContext): Promise<ProcessingResult> {
+	private async processValue(
+		executeFunctions: IExecuteFunctions,
+		inputValue: unknown,
+		context: ProcessingContext,
+		documentIndex?: number,
+	): Promise<ProcessingResult> {
 		try {
-			const inputValue = this.extractInputValue(context);
 			const sanitizeResult = this.processInputValue(inputValue, context.parameters);
-			const outputData = this.prepareOutputData(sanitizeResult, context.parameters);
-			const resultItem = this.createResultItem(outputData, context);
+			this.validateResult(sanitizeResult, context.parameters);
+			const resultItem =
+				context.parameters.outputTarget === 'binary'
+					? await this.createBinaryResultItem(
+							executeFunctions,
+							sanitizeResult.parsed,
+							sanitizeResult.preservedNumberPaths ?? [],
+							context,
+						)
+					: this.createResultItem(this.prepareOutputData(sanitizeResult, context.parameters), context);
+
+			if (documentIndex !== undefined) {
+				resultItem.json.documentIndex = documentIndex;
+			}
 
-			return { success: true, data: resultItem };
+			return { success: true, data: resultItem, documentIndex, value: sanitizeResult.parsed };
 		} catch (error) {
-			return {
-				success: false,
-				error: {
-					message: error.message,
-					itemIndex: context.itemIndex,
+			return this.createErrorResult(error, context, { documentIndex, originalInput: inputValue });
+		}
+	}
+
+	/**
+	 * Sanitizes every value matched by a wildcard path in place, keeping the surrounding structure
+	 * @param executeFunctions - N8N execution context
+	 * @param matches - Values selected by the input field
+	 * @param scope - The object or array the first wildcard iterates over, which becomes the output
+	 * @param context - Processing context containing item and parameters
+	 * @returns Processing result for the whole item, failing on the first value that cannot be processed
+	 */
+	private async processWildcardMatches(
+		executeFunctions: IExecuteFunctions,
+		matches: FieldMatch[],
+		scope: FieldMatch & { value: object },
+		context: ProcessingContext,
+	): Promise<ProcessingResult> {
+		if (context.parameters.inputMode === 'multiple') {
+			return this.createErrorResult(
+				new Error('Multiple Documents input mode does not support wildcard field paths'),
+				context,
+			);
+		}
+
+		const output = deepCopy(scope.value);
+		// Preserved numbers of every match, relative to the output
+		const preservedPaths: string[] = [];
+
+		for (const match of matches) {
+			try {
+				const sanitizeResult = this.processInputValue(match.value, context.parameters);
+				this.validateResult(sanitizeResult, context.parameters);
+				const relativePath = match.path.slice(scope.path.length);
+				for (const path of sanitizeResult.preservedNumberPaths ?? []) {
+					preservedPaths.push(formatFieldPath(path === '' ? relativePath : [...relativePath, path]));
 				}
-			};
+				setFieldValue(
+					output,
+					relativePath,
+					context.parameters.outputTarget === 'binary'
+						? sanitizeResult.parsed
+						: this.prepareOutputData(sanitizeResult, context.parameters),
+				);
+			} catch (error) {
+				return this.createErrorResult(error, context, {
+					fieldPath: formatFieldPath(match.path),
+					originalInput: match.value,
+				});
+			}
+		}
+
+		try {
+			const resultItem =
+				context.parameters.outputTarget === 'binary'
+					? await this.createBinaryResultItem(executeFunctions, output, preservedPaths, context)
+					: this.createResultItem(output, context);
+			return { success: true, data: resultItem, value: output };
+		} catch (error) {
+			return this.createErrorResult(error, context);
+		}
+	}
+
+	/**
+	 * Converts a thrown error into a failed processing result
+	 * @param error - The error raised while processing
+	 * @param context - Processing context containing item and parameters
+	 * @param location - Where the failure happened and the value that failed, when known
+	 * @returns Failed processing result
+	 */
+	private createErrorResult(
+		error: Error,
+		context: ProcessingContext,
+		location: ErrorLocation = {},
+	): ProcessingResult {
+		const { inputSource, inputField, binaryProperty } = context.parameters;
+		// Failures without a more precise location are reported at the configured input
+		const inputPath = inputSource === 'binary' ? binaryProperty : inputField;
+		const fieldPath =
+			location.fieldPath ?? (error instanceof SanitizerError ? error.details.fieldPath : undefined) ?? inputPath;
+
+		return {
+			success: false,
+			documentIndex: location.documentIndex,
+			error: {
+				message: error.message,
+				itemIndex: context.itemIndex,
+				type: error instanceof SanitizerError ? error.type : 'JSON_SANITIZATION_ERROR',
+				...(error instanceof SanitizerError ? error.details : {}),
+				...(fieldPath ? { fieldPath } : {}),
+				...(location.originalInput !== undefined ? { originalInput: location.originalInput } : {}),
+			},
+		};
+	}
+
+	/**
+	 * Validates the parsed result against the configured JSON Schema
+	 * @param sanitizeResult - Result from sanitization process
+	 * @param parameters - Node configuration parameters
+	 * @throws SanitizerError of type VALIDATION_ERROR listing every violation
+	 */
+	private validateResult(sanitizeResult: SanitizeResult, parameters: NodeParameters): void {
+		if (!parameters.validateSchema) return;
+
+		const violations = this.getSchemaValidator(parameters.jsonSchema).validate(sanitizeResult.parsed);
+		if (violations.length === 0) return;
+
+		const summary = violations
+			.map((violation) => `${violation.instancePath || '/'} ${violation.message}`)
+			.join('; ');
+		throw new SanitizerError(
+			`JSON Schema validation failed with ${violations.length} violation(s): ${summary}`,
+			'VALIDATION_ERROR',
+			{ violations },
+		);
+	}
+
+	/**
+	 * Returns a (cached) validator for the configured JSON Schema
+	 * @param jsonSchema - Schema as JSON string or object
+	 * @returns Validator for the schema
+	 * @throws SanitizerError if the schema is not valid JSON
+	 */
+	private getSchemaValidator(jsonSchema: string | object): JsonSchemaValidator {
+		const key = typeof jsonSchema === 'string' ? jsonSchema : JSON.stringify(jsonSchema);
+		let validator = this.schemaValidators.get(key);
+
+		if (!validator) {
+			validator = new JsonSchemaValidator(this.parseSchema(jsonSchema));
+			this.schemaValidators.set(key, validator);
 		}
+
+		return validator;
+	}
+
+	/**
+	 * Parses the JSON Schema parameter
+	 * @param jsonSchema - Schema as JSON string or object
+	 * @returns The schema
+	 * @throws SanitizerError if the schema is not valid JSON
+	 */
+	private parseSchema(jsonSchema: string | object): unknown {
+		if (typeof jsonSchema !== 'string') return jsonSchema;
+
+		let schema: unknown;
+		let parseError: string | undefined;
+		try {
+			schema = JSON.parse(jsonSchema);
+		} catch (error) {
+			parseError = (error as Error).message;
+		}
+		if (parseError !== undefined) {
+			throw new SanitizerError(`Invalid JSON Schema parameter: ${parseError}`, 'VALIDATION_ERROR');
+		}
+
+		return schema;
 	}
 
 	/**
@@ -124,61 +553,149 @@ export class NodeProcessor {
 	 * @returns Sanitization result
 	 */
 	private processInputValue(inputValue: unknown, parameters: NodeParameters): SanitizeResult {
+		const options = this.createSanitizeOptions(parameters);
+
 		if (parameters.outputMode === 'repair') {
 			// For repair mode, ensure we have a string input
 			if (typeof inputValue !== 'string') {
 				throw new Error('Smart Repair mode requires string input');
 			}
-			return this.sanitizationService.repair(inputValue);
+			return this.sanitizationService.repair(inputValue, options);
 		} else {
 			// For other modes, use normal sanitization
-			return this.sanitizationService.sanitize(inputValue);
+			return this.sanitizationService.sanitize(inputValue, options);
 		}
 	}
 
 	/**
-	 * Extracts input value from the specified field, supporting dot notation
+	 * Maps node parameters to sanitization service options
+	 * @param parameters - Node configuration parameters
+	 * @returns Options for JsonSanitizationService
+	 */
+	private createSanitizeOptions(parameters: NodeParameters): SanitizeOptions {
+		const { options } = parameters;
+
+		return {
+			extraction: parameters.extractionMode,
+			strictness: options.strictness,
+			dialect: options.inputDialect,
+			losslessNumbers: options.losslessNumbers,
+			duplicateKeys: options.duplicateKeys,
+			limits: {
+				maxInputBytes: options.maxInputBytes ?? DEFAULT_SAFETY_LIMITS.maxInputBytes,
+				maxDepth: options.maxNestingDepth ?? DEFAULT_SAFETY_LIMITS.maxDepth,
+				maxKeys: options.maxKeysPerObject ?? DEFAULT_SAFETY_LIMITS.maxKeys,
+				maxArrayLength: options.maxArrayLength ?? DEFAULT_SAFETY_LIMITS.maxArrayLength,
+			},
+			prototypeKeys: options.prototypeKeys ?? 'stripProto',
+			format: {
+				style: options.stringFormat ?? 'preserve',
+				indent: options.indentWithTabs ? 'tab' : options.indentWidth,
+				sortKeys: options.sortKeys,
+				asciiOnly: options.escapeNonAscii,
+			},
+			fingerprint: options.includeFingerprint,
+			diff: options.includeRepairDiff,
+			coercion:
+				parameters.validateSchema && parameters.coerceToSchema
+					? {
+							schema: this.parseSchema(parameters.jsonSchema),
+							removeAdditional: parameters.removeAdditionalProperties,
+						}
+					: undefined,
+			stringValues:
+				(options.unicodeNormalization ?? 'none') !== 'none' || options.stripInvisibleCharacters
+					? {
+							unicodeForm: options.unicodeNormalization,
+							stripInvisible: options.stripInvisibleCharacters,
+						}
+					: undefined,
+			specialValues: {
+				nonFiniteNumbers: options.nonFiniteNumbers,
+				undefinedValues: options.undefinedValues,
+			},
+			deepDecode: options.decodeNested
+				? {
+						maxDepth: options.maxDecodeDepth ?? 3,
+						paths: (options.decodePaths ?? '')
+							.split(',')
+							.map((path) => path.trim())
+							.filter((path) => path !== ''),
+					}
+				: undefined,
+			steps: {
+				removeBOM: options.removeBOM,
+				trimWhitespace: options.trimWhitespace,
+				removeMarkdownFences: options.removeMarkdownFences,
+				normalizeTypography: options.normalizeTypography,
+				handleDoublyEscapedJSON: options.handleDoublyEscapedJSON,
+				removeTrailingCommas: options.removeTrailingCommas,
+				removeComments: options.removeComments,
+				normalizeLineEndings: options.normalizeLineEndings,
+			},
+			parserTiers: {
+				controlCharacters: options.escapeControlCharacters,
+				truncation: options.completeTruncated,
+				jsonrepair: options.useJsonRepair,
+				basic: options.useBasicRepair,
+			},
+		};
+	}
+
+	/**
+	 * Resolves the input field, supporting dot and bracket notation, quoted keys and wildcards
 	 * @param context - Processing context containing item and field information
-	 * @returns Extracted value from the specified field
-	 * @throws Error if field is not found or path is invalid
+	 * @returns The values selected by the field path; a wildcard over empty arrays or objects selects nothing
+	 * @throws SanitizerError of type FIELD_EXTRACTION_ERROR if the field is not found, or a wildcard's
+	 * elements exist but none of them contain the rest of the path
+	 * @throws Error if the path is invalid
 	 */
-	private extractInputValue(context: ProcessingContext): unknown {
+	private resolveInputField(context: ProcessingContext): FieldPathResolution {
 		const fieldPath = context.parameters.inputField;
-		let value: unknown = context.item.json;
-
-		// Handle dot notation (e.g., 'body.content')
-		if (fieldPath.includes('.')) {
-			const parts = fieldPath.split('.');
-			let current: unknown = context.item.json;
-
-			for (const [index, key] of parts.entries()) {
-				if (current === null || current === undefined) {
-					const pathSoFar = parts.slice(0, index).join('.');
-					throw new Error(
-						`Field path '${fieldPath}' is invalid: '${pathSoFar}' resolves to ${current}`
-					);
-				}
-
-				if (typeof current !== 'object') {
-					const pathSoFar = parts.slice(0, index).join('.');
-					throw new Error(
-						`Field path '${fieldPath}' is invalid: '${pathSoFar}' is not an object`
-					);
-				}
+		const resolution = resolveFieldPath(context.item.json, fieldPath);
 
-				current = (current as Record<string, unknown>)[key];
-			}
-			value = current;
-		} else {
-			// Simple field access
-			value = (context.item.json as Record<string, unknown>)[fieldPath];
+		if (resolution.matches.length === 0 && (!resolution.wildcardScope || resolution.skippedBranches)) {
+			throw new SanitizerError(
+				resolution.wildcardScope
+					? `Field path '${fieldPath}' did not match any values`
+					: `Field '${fieldPath}' not found in input data`,
+				'FIELD_EXTRACTION_ERROR',
+				{ fieldPath },
+			);
 		}
 
-		if (value === undefined || value === null) {
-			throw new Error(`Field '${fieldPath}' not found in input data`);
+		return resolution;
+	}
+
+	/**
+	 * Reads and decodes the configured binary property of the item
+	 * @param executeFunctions - N8N execution context
+	 * @param context - Processing context containing item and parameters
+	 * @returns Decoded text of the binary data
+	 * @throws SanitizerError of type FIELD_EXTRACTION_ERROR if the binary property does not exist
+	 * @throws SanitizerError of type SAFETY_LIMIT_ERROR if the binary data exceeds the input size limit
+	 */
+	private async readBinaryInput(
+		executeFunctions: IExecuteFunctions,
+		context: ProcessingContext,
+	): Promise<string> {
+		const { binaryProperty, binaryEncoding } = context.parameters;
+
+		if (!context.item.binary?.[binaryProperty]) {
+			throw new SanitizerError(
+				`Binary property '${binaryProperty}' not found in input data`,
+				'FIELD_EXTRACTION_ERROR',
+				{ fieldPath: binaryProperty },
+			);
 		}
 
-		return value;
+		const buffer = await executeFunctions.helpers.getBinaryDataBuffer(context.itemIndex, binaryProperty);
+		// Checked before decoding, so oversized files are not turned into strings
+		this.safetyGuard.checkInputSize(
+			buffer.length,
+			this.createSanitizeOptions(context.parameters).limits ?? {},
+		);
+		return this.binaryDecoder.decode(buffer, binaryEncoding).text;
 	}
 
 	/**
@@ -200,14 +717,40 @@ export class NodeProcessor {
 					cleanedString: sanitizeResult.cleanedString,
 					wasAlreadyParsed: sanitizeResult.wasAlreadyParsed,
 					wasRepaired: sanitizeResult.wasRepaired,
+					wasTruncated: sanitizeResult.wasTruncated === true,
+					...(sanitizeResult.truncation ? { truncation: sanitizeResult.truncation } : {}),
 					originalType: typeof sanitizeResult.original,
+					...(sanitizeResult.extraction ? { extraction: sanitizeResult.extraction } : {}),
+					...(sanitizeResult.repairMetadata ? { repairMetadata: sanitizeResult.repairMetadata } : {}),
+					...(sanitizeResult.expandedPaths ? { expandedPaths: sanitizeResult.expandedPaths } : {}),
+					...(sanitizeResult.preservedNumberPaths
+						? { preservedNumberPaths: sanitizeResult.preservedNumberPaths }
+						: {}),
+					...(sanitizeResult.duplicateKeys ? { duplicateKeys: sanitizeResult.duplicateKeys } : {}),
+					...(sanitizeResult.strippedKeys ? { strippedKeys: sanitizeResult.strippedKeys } : {}),
+					...(sanitizeResult.typography ? { typography: sanitizeResult.typography } : {}),
+					...(sanitizeResult.fingerprint ? { fingerprint: sanitizeResult.fingerprint } : {}),
+					...(sanitizeResult.coercions ? { coercions: sanitizeResult.coercions } : {}),
 				};
 			case 'repair':
 				return {
 					parsed: sanitizeResult.parsed,
 					repairedString: sanitizeResult.cleanedString,
 					wasRepaired: sanitizeResult.wasRepaired,
+					wasTruncated: sanitizeResult.wasTruncated === true,
+					...(sanitizeResult.truncation ? { truncation: sanitizeResult.truncation } : {}),
 					originalInput: sanitizeResult.original,
+					...(sanitizeResult.extraction ? { extraction: sanitizeResult.extraction } : {}),
+					...(sanitizeResult.repairMetadata ? { repairMetadata: sanitizeResult.repairMetadata } : {}),
+					...(sanitizeResult.expandedPaths ? { expandedPaths: sanitizeResult.expandedPaths } : {}),
+					...(sanitizeResult.preservedNumberPaths
+						? { preservedNumberPaths: sanitizeResult.preservedNumberPaths }
+						: {}),
+					...(sanitizeResult.duplicateKeys ? { duplicateKeys: sanitizeResult.duplicateKeys } : {}),
+					...(sanitizeResult.strippedKeys ? { strippedKeys: sanitizeResult.strippedKeys } : {}),
+					...(sanitizeResult.typography ? { typography: sanitizeResult.typography } : {}),
+					...(sanitizeResult.fingerprint ? { fingerprint: sanitizeResult.fingerprint } : {}),
+					...(sanitizeResult.coercions ? { coercions: sanitizeResult.coercions } : {}),
 				};
 			default:
 				throw new Error(`Unknown output mode: ${parameters.outputMode}`);
@@ -215,44 +758,227 @@ export class NodeProcessor {
 	}
 
 	/**
-	 * Creates the result item with proper structure for N8N
+	 * Formats a parsed value as the content of the output file, the way the cleaned string is
+	 * formatted: the String Format options set key order, indentation and escaping (canonical
+	 * output stays canonical), and preserved numbers are written with their original digits
+	 * @param value - The parsed JSON value
+	 * @param preservedPaths - Paths of strings holding preserved numbers
+	 * @param parameters - Node parameters selecting the file format and the String Format options
+	 * @returns File content
+	 */
+	private prepareFileContent(value: unknown, preservedPaths: string[], parameters: NodeParameters): string {
+		const format = this.createSanitizeOptions(parameters).format ?? { style: 'preserve' };
+		const layout = (style: 'pretty' | 'minified'): FormatOptions =>
+			format.style === 'canonical' ? format : { ...format, style };
+
+		switch (parameters.outputFileFormat) {
+			case 'pretty':
+				return this.formatter.format(value, layout('pretty'), preservedPaths);
+			case 'minified':
+				return this.formatter.format(value, layout('minified'), preservedPaths);
+			case 'ndjson': {
+				const lines = Array.isArray(value)
+					? value.map((line, index) =>
+							this.formatter.format(line, layout('minified'), this.elementPaths(preservedPaths, index)),
+						)
+					: [this.formatter.format(value, layout('minified'), preservedPaths)];
+				return lines.join('\n') + '\n';
+			}
+			default:
+				throw new Error(`Unknown file format: ${parameters.outputFileFormat}`);
+		}
+	}
+
+	/**
+	 * Selects the preserved number paths inside an array element, relative to the element
+	 * @param preservedPaths - Paths of preserved numbers in the array
+	 * @param index - Index of the element
+	 * @returns Paths within the element ("" for the element itself)
+	 */
+	private elementPaths(preservedPaths: string[], index: number): string[] {
+		const prefix = `${index}.`;
+		return preservedPaths
+			.filter((path) => path === String(index) || path.startsWith(prefix))
+			.map((path) => path.slice(prefix.length));
+	}
+
+	/**
+	 * Creates a result item that carries the sanitized JSON as a binary file
+	 * @param executeFunctions - N8N execution context
+	 * @param value - The parsed JSON value to write
+	 * @param preservedPaths - Paths of strings holding preserved numbers
+	 * @param context - Processing context with original item and parameters
+	 * @returns N8N execution data item with the file in the output binary property
+	 */
+	private async createBinaryResultItem(
+		executeFunctions: IExecuteFunctions,
+		value: unknown,
+		preservedPaths: string[],
+		context: ProcessingContext,
+	): Promise<INodeExecutionData> {
+		const { item, itemIndex, parameters } = context;
+		const content = this.prepareFileContent(value, preservedPaths, parameters);
+		const binaryData = await executeFunctions.helpers.prepareBinaryData(
+			Buffer.from(content, 'utf8'),
+			parameters.outputFileName,
+			'application/json',
+		);
+
+		return {
+			json: parameters.keepOriginal ? deepCopy(item.json) : {},
+			binary: {
+				...(parameters.keepOriginal ? item.binary : {}),
+				[parameters.outputBinaryProperty]: binaryData,
+			},
+			pairedItem: { item: itemIndex },
+		};
+	}
+
+	/**
+	 * Creates the result item with proper structure for N8N, placing the output as configured
 	 * @param outputData - The processed output data
 	 * @param context - Processing context with original item and parameters
 	 * @returns N8N execution data item
+	 * @throws Error if the output cannot be placed (e.g. merging a non-object into the root)
 	 */
 	private createResultItem(outputData: unknown, context: ProcessingContext): INodeExecutionData {
 		const { item, itemIndex, parameters } = context;
+		const { outputPlacement } = parameters;
 
-		const newItem: INodeExecutionData = {
-			json: parameters.keepOriginal ? { ...item.json } : {},
+		// Only the named field placement can start from an empty item; the others write into the original
+		const json: IDataObject =
+			outputPlacement === 'field' && !parameters.keepOriginal ? {} : deepCopy(item.json);
+
+		switch (outputPlacement) {
+			case 'field':
+				setFieldValue(json, this.getOutputPath(parameters.outputField), outputData);
+				break;
+			case 'replaceInput':
+				if (!context.inputPath || context.inputPath.length === 0) {
+					throw new Error('Replace Input Field requires a JSON input field below the item root');
+				}
+				setFieldValue(json, context.inputPath, outputData);
+				break;
+			case 'mergeRoot':
+				if (!isPlainObject(outputData)) {
+					throw new Error(`Merge Into Root requires an object result, got ${this.describeType(outputData)}`);
+				}
+				Object.assign(json, outputData);
+				break;
+			case 'deepMerge': {
+				const wrapped = this.getOutputPath(parameters.outputField).reduceRight<unknown>(
+					(value, segment) => ({ [segment]: value }),
+					outputData,
+				);
+				this.mergeDeep(json, wrapped as Record<string, unknown>);
+				break;
+			}
+			default:
+				throw new Error(`Unknown output placement: ${outputPlacement}`);
+		}
+
+		return {
+			json,
 			pairedItem: { item: itemIndex },
 		};
+	}
+
+	/**
+	 * Parses the Output Field parameter into the keys to write to
+	 * @param outputField - Output field in dot or bracket notation
+	 * @returns Keys from the item root to the output value
+	 * @throws Error if the path is malformed or contains a wildcard
+	 */
+	private getOutputPath(outputField: string): PathSegment[] {
+		return parseFieldPath(outputField).map((token) => {
+			if (token.type === 'wildcard') {
+				throw new Error(`Output field '${outputField}' cannot contain wildcards`);
+			}
+			return token.key;
+		});
+	}
+
+	/**
+	 * Recursively merges source into target; nested objects are merged, all other values
+	 * (including arrays) overwrite what was there
+	 * @param target - The object to modify
+	 * @param source - The object whose keys are merged in
+	 */
+	private mergeDeep(target: Record<string, unknown>, source: Record<string, unknown>): void {
+		for (const [key, value] of Object.entries(source)) {
+			const existing = target[key];
+			if (isPlainObject(existing) && isPlainObject(value)) {
+				this.mergeDeep(existing, value);
+			} else {
+				target[key] = value;
+			}
+		}
+	}
 
-		newItem.json[parameters.outputField] = outputData as GenericValue;
-		return newItem;
+	/**
+	 * Describes the JSON type of a value for error messages
+	 * @param value - The value to describe
+	 * @returns Type name such as "array" or "string"
+	 */
+	private describeType(value: unknown): string {
+		if (value === null) return 'null';
+		return Array.isArray(value) ? 'array' : typeof value;
 	}
 
 	/**
 	 * Handles errors based on the error handling mode
 	 * @param executeFunctions - N8N execution context
-	 * @param error - Error details with message and item index
-	 * @param errorHandling - How to handle the error (stop or continue)
+	 * @param error - Error details with message, item index and type
+	 * @param errorHandling - How to handle the error (stop, continue or output)
 	 * @throws NodeOperationError if errorHandling is 'stop'
 	 */
 	private handleError(
 		executeFunctions: IExecuteFunctions,
-		error: { message: string; itemIndex: number },
+		error: ProcessingError,
 		errorHandling: ErrorHandlingMode
 	): void {
 		if (errorHandling === 'stop') {
+			const description = (
+				error.violations?.map((violation) => `${violation.instancePath || '/'}: ${violation.message}`) ??
+				error.duplicateKeys?.map(
+					(duplicate) => `${duplicate.path}: key appears ${duplicate.occurrences} times`,
+				) ??
+				this.describeParseError(error)
+			)?.join('\n');
 			throw new NodeOperationError(
 				executeFunctions.getNode(),
-				`Failed to sanitize JSON: ${error.message}`,
-				{ itemIndex: error.itemIndex }
+				error.fieldPath !== undefined
+					? `Failed to sanitize JSON at '${error.fieldPath}': ${error.message}`
+					: `Failed to sanitize JSON: ${error.message}`,
+				{ itemIndex: error.itemIndex, description }
 			);
 		}
 
-		// For 'continue' mode, the error is handled by returning error data
+		// For 'continue' and 'output' modes, the error is handled by returning error data
 		// This will be handled by the caller
 	}
+
+	/**
+	 * Lists the location of a syntax error and the error of each parser tier, for error descriptions
+	 * @param error - Structured error information
+	 * @returns Description lines, or undefined if the error carries no parse details
+	 */
+	private describeParseError(error: ProcessingError): string[] | undefined {
+		if (!error.parseError && !error.tierErrors) return undefined;
+
+		const lines: string[] = [];
+		if (error.parseError) {
+			const { line, column, offset, expected, found, snippet } = error.parseError;
+			lines.push(
+				`Line ${line}, column ${column} (position ${offset}): expected ${expected} but found ${found}`,
+				'',
+				snippet,
+			);
+		}
+		if (error.tierErrors?.length) {
+			if (lines.length > 0) lines.push('');
+			lines.push('Parser tiers tried:', ...error.tierErrors.map((failure) => `- ${failure.tier}: ${failure.message}`));
+		}
+		return lines;
+	}
 }
\ No newline at end of file
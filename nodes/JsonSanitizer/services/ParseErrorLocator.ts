@@ -0,0 +1,88 @@
+/**
+ * Locates syntax errors in JSON text for error reports
+ */
+
+import { ParseErrorLocation } from '../types/enhanced';
+import { JsonSyntaxError, LosslessJsonParser } from './LosslessJsonParser';
+
+/** Lines shown before and after the line of the error */
+const CONTEXT_LINES = 2;
+
+/** Characters shown on each side of the error column, so minified payloads stay readable */
+const COLUMN_WINDOW = 60;
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+/**
+ * Finds where JSON text stops being valid and renders the surrounding lines with a caret
+ */
+export class ParseErrorLocator {
+	private readonly parser = new LosslessJsonParser();
+
+	/**
+	 * Locates the first syntax error
+	 * @param text - JSON text that failed to parse
+	 * @returns The error location, or undefined if the text is valid JSON
+	 */
+	locate(text: string): ParseErrorLocation | undefined {
+		let syntaxError: JsonSyntaxError | undefined;
+		try {
+			this.parser.parse(text, { preserveNumbers: false });
+		} catch (error) {
+			if (error instanceof JsonSyntaxError) syntaxError = error;
+		}
+		if (!syntaxError) return undefined;
+
+		const { position, expected, found } = syntaxError;
+		const before = text.slice(0, position);
+		const line = before.split(LINE_BREAK).length;
+		const lineStart = Math.max(before.lastIndexOf('\n'), before.lastIndexOf('\r')) + 1;
+		const column = position - lineStart + 1;
+
+		return {
+			offset: position,
+			line,
+			column,
+			expected,
+			found,
+			snippet: this.renderSnippet(text.split(LINE_BREAK), line, column),
+		};
+	}
+
+	/**
+	 * Renders the lines around an error with line numbers and a caret under the error column.
+	 * Long lines are cut to a window around the column
+	 * @param lines - Lines of the text
+	 * @param line - Line of the error, starting at 1
+	 * @param column - Column of the error, starting at 1
+	 * @returns Snippet with one text line per source line, plus the caret line
+	 */
+	private renderSnippet(lines: string[], line: number, column: number): string {
+		const first = Math.max(1, line - CONTEXT_LINES);
+		const last = Math.min(lines.length, line + CONTEXT_LINES);
+		const gutterWidth = String(last).length;
+		const windowStart = Math.max(0, column - 1 - COLUMN_WINDOW);
+		const windowEnd = column - 1 + COLUMN_WINDOW;
+
+		const clip = (text: string): string =>
+			(windowStart > 0 ? '…' : '') +
+			text.slice(windowStart, windowEnd) +
+			(text.length > windowEnd ? '…' : '');
+
+		const rows: string[] = [];
+		for (let number = first; number <= last; number++) {
+			const marker = number === line ? '>' : ' ';
+			const text = clip(lines[number - 1]);
+			rows.push(`${marker} ${String(number).padStart(gutterWidth)} | ${text}`.trimEnd());
+
+			if (number === line) {
+				// Keep tabs so the caret lines up with the text above it
+				const lead =
+					(windowStart > 0 ? ' ' : '') + lines[number - 1].slice(windowStart, column - 1);
+				rows.push(`  ${' '.repeat(gutterWidth)} | ${lead.replace(/[^\t]/g, ' ')}^`);
+			}
+		}
+
+		return rows.join('\n');
+	}
+}
@@ -0,0 +1,413 @@
+/**
+ * Converter for Python literals (repr() output, Python-based services, LLM tool calls) to JSON text
+ */
+
+/**
+ * A converted value together with what kind of Python value it came from
+ */
+interface ConvertedValue {
+	json: string;
+	kind: 'string' | 'number' | 'constant' | 'container';
+}
+
+const PYTHON_CONSTANTS: Record<string, string> = {
+	True: 'true',
+	False: 'false',
+	None: 'null',
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+	'\\': '\\',
+	"'": "'",
+	'"': '"',
+	a: '\x07',
+	b: '\b',
+	f: '\f',
+	n: '\n',
+	r: '\r',
+	t: '\t',
+	v: '\v',
+	'\n': '',
+};
+
+const NUMBER_PATTERN =
+	/0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?/y;
+
+/**
+ * Recursive-descent converter that tokenizes Python literals properly: quotes inside
+ * strings never end them, and dicts, lists, tuples, sets, strings, numbers and the
+ * constants True, False and None are translated to their JSON equivalents
+ */
+export class PythonLiteralConverter {
+	private source = '';
+	private position = 0;
+
+	/**
+	 * Converts a Python literal to JSON text
+	 * @param input - Python literal such as `{'a': True, 'b': None, 'c': (1, 2)}`
+	 * @returns Equivalent JSON text
+	 * @throws Error describing the position of the first unsupported token
+	 */
+	convert(input: string): string {
+		this.source = input;
+		this.position = 0;
+
+		const value = this.readValue();
+		this.skipWhitespace();
+		if (this.position < this.source.length) {
+			this.fail('unexpected content after the value');
+		}
+
+		return value.json;
+	}
+
+	/**
+	 * Reads any Python value at the current position
+	 * @returns The converted value
+	 */
+	private readValue(): ConvertedValue {
+		this.skipWhitespace();
+		const char = this.source[this.position];
+
+		if (char === '{') return this.readDictOrSet();
+		if (char === '[') return this.readSequence('[', ']');
+		if (char === '(') return this.readTuple();
+		if (char === '-' || char === '+' || char === '.' || /\d/.test(char ?? '')) return this.readNumber();
+		if (this.startsString()) return this.readStrings();
+		if (/[A-Za-z_]/.test(char ?? '')) return this.readName();
+
+		return this.fail(char === undefined ? 'unexpected end of input' : `unexpected '${char}'`);
+	}
+
+	/**
+	 * Reads a dict, or a set when the first element is not followed by a colon
+	 * @returns JSON object, or JSON array for sets
+	 */
+	private readDictOrSet(): ConvertedValue {
+		this.position++;
+		this.skipWhitespace();
+		if (this.source[this.position] === '}') {
+			this.position++;
+			return { json: '{}', kind: 'container' };
+		}
+
+		const first = this.readValue();
+		this.skipWhitespace();
+		if (this.source[this.position] !== ':') {
+			return this.readRemainingItems([first.json], '}');
+		}
+
+		const entries: string[] = [];
+		let key = first;
+		for (;;) {
+			this.expect(':');
+			entries.push(`${this.toKey(key)}: ${this.readValue().json}`);
+			this.skipWhitespace();
+			if (this.consumeSeparator('}')) break;
+			key = this.readValue();
+			this.skipWhitespace();
+		}
+
+		return { json: `{${entries.join(', ')}}`, kind: 'container' };
+	}
+
+	/**
+	 * Reads a tuple as a JSON array; a single parenthesized value without a comma is just that value
+	 * @returns The converted value
+	 */
+	private readTuple(): ConvertedValue {
+		this.position++;
+		this.skipWhitespace();
+		if (this.source[this.position] === ')') {
+			this.position++;
+			return { json: '[]', kind: 'container' };
+		}
+
+		const first = this.readValue();
+		this.skipWhitespace();
+		if (this.source[this.position] === ')') {
+			this.position++;
+			return first;
+		}
+
+		return this.readRemainingItems([first.json], ')');
+	}
+
+	/**
+	 * Reads a comma-separated sequence as a JSON array
+	 * @param open - Opening bracket
+	 * @param close - Closing bracket
+	 * @returns JSON array
+	 */
+	private readSequence(open: string, close: string): ConvertedValue {
+		this.expect(open);
+		this.skipWhitespace();
+		if (this.source[this.position] === close) {
+			this.position++;
+			return { json: '[]', kind: 'container' };
+		}
+
+		const first = this.readValue();
+		this.skipWhitespace();
+		return this.readRemainingItems([first.json], close);
+	}
+
+	/**
+	 * Reads the rest of a sequence whose first items were already read, allowing a trailing comma
+	 * @param items - Items read so far
+	 * @param close - Closing bracket
+	 * @returns JSON array
+	 */
+	private readRemainingItems(items: string[], close: string): ConvertedValue {
+		while (!this.consumeSeparator(close)) {
+			items.push(this.readValue().json);
+			this.skipWhitespace();
+		}
+
+		return { json: `[${items.join(', ')}]`, kind: 'container' };
+	}
+
+	/**
+	 * Consumes a closing bracket, or a comma optionally followed by the closing bracket
+	 * @param close - Closing bracket
+	 * @returns True if the sequence is closed
+	 */
+	private consumeSeparator(close: string): boolean {
+		if (this.source[this.position] === close) {
+			this.position++;
+			return true;
+		}
+
+		this.expect(',');
+		this.skipWhitespace();
+		if (this.source[this.position] === close) {
+			this.position++;
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Reads a number, normalising Python-only syntax (underscores, hex/octal/binary, `.5`, `5.`)
+	 * @returns JSON number
+	 */
+	private readNumber(): ConvertedValue {
+		const start = this.position;
+		let sign = '';
+		while (this.source[this.position] === '-' || this.source[this.position] === '+') {
+			if (this.source[this.position] === '-') sign = sign === '-' ? '' : '-';
+			this.position++;
+			this.skipWhitespace();
+		}
+
+		NUMBER_PATTERN.lastIndex = this.position;
+		const match = NUMBER_PATTERN.exec(this.source);
+		if (!match || match[0] === '.') {
+			const word = /[A-Za-z]+/y;
+			word.lastIndex = this.position;
+			const name = word.exec(this.source)?.[0];
+			this.position = start;
+			return this.fail(
+				name === 'inf' || name === 'nan' ? `'${sign}${name}' has no JSON equivalent` : 'invalid number',
+			);
+		}
+		this.position += match[0].length;
+
+		if (/[jJ]/.test(this.source[this.position] ?? '')) {
+			this.position = start;
+			return this.fail('complex numbers have no JSON equivalent');
+		}
+
+		let digits = match[0].replace(/_/g, '');
+		if (/^0[xXoObB]/.test(digits)) {
+			digits = BigInt(digits).toString();
+		} else {
+			digits = digits
+				.replace(/^\./, '0.')
+				.replace(/\.(?=[eE]|$)/, '.0')
+				.replace(/^0+(?=\d)/, '');
+		}
+
+		return { json: sign + digits, kind: 'number' };
+	}
+
+	/**
+	 * Reads True, False or None
+	 * @returns JSON constant
+	 */
+	private readName(): ConvertedValue {
+		const word = /[A-Za-z_]\w*/y;
+		word.lastIndex = this.position;
+		const name = word.exec(this.source)?.[0] ?? '';
+
+		if (!Object.prototype.hasOwnProperty.call(PYTHON_CONSTANTS, name)) {
+			return this.fail(
+				name === 'inf' || name === 'nan'
+					? `'${name}' has no JSON equivalent`
+					: `unsupported name '${name}'`,
+			);
+		}
+
+		this.position += name.length;
+		return { json: PYTHON_CONSTANTS[name], kind: 'constant' };
+	}
+
+	/**
+	 * Checks whether a string literal (with optional r, b or u prefix) starts at the current position
+	 * @returns True if a string starts here
+	 */
+	private startsString(): boolean {
+		const prefix = /[rRbBuU]{0,2}['"]/y;
+		prefix.lastIndex = this.position;
+		return prefix.test(this.source);
+	}
+
+	/**
+	 * Reads one or more adjacent string literals, which Python concatenates
+	 * @returns JSON string
+	 */
+	private readStrings(): ConvertedValue {
+		let text = this.readString();
+		for (;;) {
+			const next = this.position;
+			this.skipWhitespace();
+			if (!this.startsString()) {
+				this.position = next;
+				break;
+			}
+			text += this.readString();
+		}
+
+		return { json: JSON.stringify(text), kind: 'string' };
+	}
+
+	/**
+	 * Reads a single-, double- or triple-quoted string literal and decodes its escapes
+	 * @returns The string's value
+	 */
+	private readString(): string {
+		const start = this.position;
+		let raw = false;
+		while (/[rRbBuU]/.test(this.source[this.position])) {
+			raw = raw || /[rR]/.test(this.source[this.position]);
+			this.position++;
+		}
+
+		const quoteChar = this.source[this.position];
+		const quote = this.source.startsWith(quoteChar.repeat(3), this.position)
+			? quoteChar.repeat(3)
+			: quoteChar;
+		this.position += quote.length;
+
+		let value = '';
+		while (!this.source.startsWith(quote, this.position)) {
+			const char = this.source[this.position];
+			if (char === undefined) {
+				this.position = start;
+				return this.fail('unterminated string');
+			}
+
+			if (char === '\\' && this.position + 1 < this.source.length) {
+				if (raw) {
+					// Raw strings keep the backslash, which still stops the next quote from closing the string
+					value += char + this.source[this.position + 1];
+					this.position += 2;
+				} else {
+					value += this.decodeEscape();
+				}
+				continue;
+			}
+
+			value += char;
+			this.position++;
+		}
+
+		this.position += quote.length;
+		return value;
+	}
+
+	/**
+	 * Decodes the escape sequence at the current position and moves past it
+	 * @returns The decoded character(s)
+	 */
+	private decodeEscape(): string {
+		const code = this.source[this.position + 1];
+		this.position += 2;
+
+		if (code in SIMPLE_ESCAPES) return SIMPLE_ESCAPES[code];
+
+		const hexLength = code === 'x' ? 2 : code === 'u' ? 4 : code === 'U' ? 8 : 0;
+		if (hexLength > 0) {
+			const hex = this.source.slice(this.position, this.position + hexLength);
+			if (/^[\da-fA-F]+$/.test(hex) && hex.length === hexLength) {
+				this.position += hexLength;
+				return String.fromCodePoint(parseInt(hex, 16));
+			}
+		}
+
+		if (/[0-7]/.test(code)) {
+			const octal = /[0-7]{0,2}/y;
+			octal.lastIndex = this.position;
+			const rest = octal.exec(this.source)?.[0] ?? '';
+			this.position += rest.length;
+			return String.fromCharCode(parseInt(code + rest, 8));
+		}
+
+		// Unknown escapes (including \N{...}) are kept verbatim, as Python does
+		return '\\' + code;
+	}
+
+	/**
+	 * Converts a dict key to a JSON object key, following json.dumps for non-string keys
+	 * @param key - The converted key
+	 * @returns JSON string
+	 */
+	private toKey(key: ConvertedValue): string {
+		if (key.kind === 'string') return key.json;
+		if (key.kind === 'container') return this.fail('dict keys must be strings, numbers or constants');
+		return JSON.stringify(key.json);
+	}
+
+	/**
+	 * Consumes an expected character
+	 * @param char - The expected character
+	 */
+	private expect(char: string): void {
+		this.skipWhitespace();
+		if (this.source[this.position] !== char) {
+			const found = this.source[this.position];
+			this.fail(
+				found === undefined
+					? `expected '${char}' before end of input`
+					: `expected '${char}' but found '${found}'`,
+			);
+		}
+		this.position++;
+	}
+
+	/**
+	 * Skips whitespace, including line continuations
+	 */
+	private skipWhitespace(): void {
+		while (this.position < this.source.length) {
+			const char = this.source[this.position];
+			if (/\s/.test(char)) {
+				this.position++;
+			} else if (char === '\\' && /[\r\n]/.test(this.source[this.position + 1] ?? '')) {
+				this.position += 2;
+			} else {
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Throws a conversion error for the current position
+	 * @param reason - What went wrong
+	 * @throws Error describing the position
+	 */
+	private fail(reason: string): never {
+		throw new Error(`Invalid Python literal at position ${this.position}: ${reason}`);
+	}
+}
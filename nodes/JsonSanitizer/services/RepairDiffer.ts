@@ -0,0 +1,291 @@
+/**
+ * Diff between an input and its repaired form, for auditing repairs
+ */
+
+import { JsonPatchOperation, RepairDiff, TextEdit } from '../types/enhanced';
+import { JsonTextScanner } from './JsonTextScanner';
+import { escapePointer, isPlainObject } from './jsonValue';
+
+/** Longest changed region (after trimming the common prefix and suffix) diffed character by character */
+const MAX_DIFF_LENGTH = 20000;
+
+/** Most single-character edits searched for before the changed region is reported as one span */
+const MAX_EDIT_DISTANCE = 1000;
+
+type EditOperation = 'equal' | 'delete' | 'insert';
+
+const textScanner = new JsonTextScanner();
+
+/**
+ * Describes a repair as textual edit spans on the raw input and, when the text that was
+ * repaired can be partially read as JSON, as an RFC 6902 JSON Patch from what could be read
+ * to the repaired value
+ */
+export class RepairDiffer {
+	/**
+	 * Computes the diff of a repair
+	 * @param original - The untouched input string
+	 * @param repaired - The valid JSON string the repair produced
+	 * @param source - The text handed to the parser tiers (after extraction and cleanups)
+	 * @returns Edit spans, and a JSON Patch if a prefix of the source could be read
+	 */
+	diff(original: string, repaired: string, source: string): RepairDiff {
+		const before = this.readPrefix(source);
+		const after = this.tryParse(repaired);
+		return {
+			edits: this.diffText(original, repaired),
+			...(before && after ? { patch: this.diffValues(before.value, after.value) } : {}),
+		};
+	}
+
+	/**
+	 * Computes the character spans that turn one string into another
+	 * @param before - The original string
+	 * @param after - The changed string
+	 * @returns Edits with offsets into the original string, in order
+	 */
+	diffText(before: string, after: string): TextEdit[] {
+		let prefix = 0;
+		while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+			prefix++;
+		}
+		let suffix = 0;
+		while (
+			suffix < before.length - prefix &&
+			suffix < after.length - prefix &&
+			before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+		) {
+			suffix++;
+		}
+
+		const removed = before.slice(prefix, before.length - suffix);
+		const inserted = after.slice(prefix, after.length - suffix);
+		if (removed === '' && inserted === '') return [];
+
+		const script =
+			removed.length + inserted.length <= MAX_DIFF_LENGTH
+				? this.shortestEditScript(removed, inserted)
+				: undefined;
+		if (!script) {
+			return [{ start: prefix, end: prefix + removed.length, removed, inserted }];
+		}
+
+		const edits: TextEdit[] = [];
+		let beforeIndex = 0;
+		let afterIndex = 0;
+		let current: TextEdit | undefined;
+
+		for (const operation of script) {
+			if (operation === 'equal') {
+				current = undefined;
+				beforeIndex++;
+				afterIndex++;
+				continue;
+			}
+
+			if (!current) {
+				current = {
+					start: prefix + beforeIndex,
+					end: prefix + beforeIndex,
+					removed: '',
+					inserted: '',
+				};
+				edits.push(current);
+			}
+			if (operation === 'delete') {
+				current.removed += removed[beforeIndex++];
+				current.end++;
+			} else {
+				current.inserted += inserted[afterIndex++];
+			}
+		}
+
+		return edits;
+	}
+
+	/**
+	 * Computes an RFC 6902 JSON Patch that turns one value into another
+	 * @param before - The original value
+	 * @param after - The changed value
+	 * @param path - JSON Pointer of the values (empty for the root)
+	 * @returns Add, remove and replace operations
+	 */
+	diffValues(before: unknown, after: unknown, path = ''): JsonPatchOperation[] {
+		if (before === after) return [];
+
+		if (Array.isArray(before) && Array.isArray(after)) {
+			const operations: JsonPatchOperation[] = [];
+			const common = Math.min(before.length, after.length);
+			for (let index = 0; index < common; index++) {
+				operations.push(...this.diffValues(before[index], after[index], `${path}/${index}`));
+			}
+			// Removals run from the end so that earlier indices stay valid
+			for (let index = before.length - 1; index >= after.length; index--) {
+				operations.push({ op: 'remove', path: `${path}/${index}` });
+			}
+			for (let index = before.length; index < after.length; index++) {
+				operations.push({ op: 'add', path: `${path}/${index}`, value: after[index] });
+			}
+			return operations;
+		}
+
+		if (isPlainObject(before) && isPlainObject(after)) {
+			const operations: JsonPatchOperation[] = [];
+			for (const key of Object.keys(before)) {
+				if (!Object.prototype.hasOwnProperty.call(after, key)) {
+					operations.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+				}
+			}
+			for (const key of Object.keys(after)) {
+				const childPath = `${path}/${escapePointer(key)}`;
+				if (Object.prototype.hasOwnProperty.call(before, key)) {
+					operations.push(...this.diffValues(before[key], after[key], childPath));
+				} else {
+					operations.push({ op: 'add', path: childPath, value: after[key] });
+				}
+			}
+			return operations;
+		}
+
+		return [{ op: 'replace', path, value: after }];
+	}
+
+	/**
+	 * Reads the longest prefix of a text that is valid JSON once its open brackets are closed.
+	 * Prefixes are cut after an opening or closing bracket, before a comma, or at the end
+	 * @param text - The text to read
+	 * @returns The value of the longest readable prefix, or undefined if none can be read
+	 */
+	private readPrefix(text: string): { value: unknown } | undefined {
+		const cuts: Array<{ end: number; closers: string }> = [];
+		const stack: string[] = [];
+		const closers = () => [...stack].reverse().join('');
+
+		let position = 0;
+		while (position < text.length) {
+			const char = text[position];
+
+			if (char === '"') {
+				position = textScanner.skipString(text, position);
+				continue;
+			}
+			if (char === '{' || char === '[') {
+				stack.push(char === '{' ? '}' : ']');
+				cuts.push({ end: position + 1, closers: closers() });
+			} else if (char === '}' || char === ']') {
+				stack.pop();
+				cuts.push({ end: position + 1, closers: closers() });
+			} else if (char === ',') {
+				cuts.push({ end: position, closers: closers() });
+			}
+			position++;
+		}
+		cuts.push({ end: text.length, closers: closers() });
+
+		// Prefixes stop parsing at the first syntax error, so the readable cuts come first
+		let low = 0;
+		let high = cuts.length - 1;
+		let found: { value: unknown } | undefined;
+		while (low <= high) {
+			const middle = Math.floor((low + high) / 2);
+			const candidate = this.tryParse(text.slice(0, cuts[middle].end) + cuts[middle].closers);
+			if (candidate) {
+				found = candidate;
+				low = middle + 1;
+			} else {
+				high = middle - 1;
+			}
+		}
+
+		return found;
+	}
+
+	/**
+	 * Finds the shortest sequence of single-character deletions and insertions (Myers' algorithm)
+	 * @param before - The original string
+	 * @param after - The changed string
+	 * @returns One operation per character, or undefined if more edits than the limit are needed
+	 */
+	private shortestEditScript(before: string, after: string): EditOperation[] | undefined {
+		const maxDistance = Math.min(before.length + after.length, MAX_EDIT_DISTANCE);
+		const offset = maxDistance + 1;
+		const frontier = new Int32Array(2 * maxDistance + 3);
+		const trace: Int32Array[] = [];
+
+		for (let distance = 0; distance <= maxDistance; distance++) {
+			trace.push(frontier.slice());
+
+			for (let diagonal = -distance; diagonal <= distance; diagonal += 2) {
+				const fromAbove =
+					diagonal === -distance ||
+					(diagonal !== distance &&
+						frontier[offset + diagonal - 1] < frontier[offset + diagonal + 1]);
+				let x = fromAbove ? frontier[offset + diagonal + 1] : frontier[offset + diagonal - 1] + 1;
+				let y = x - diagonal;
+				while (x < before.length && y < after.length && before[x] === after[y]) {
+					x++;
+					y++;
+				}
+				frontier[offset + diagonal] = x;
+
+				if (x >= before.length && y >= after.length) {
+					return this.backtrack(trace, before.length, after.length, offset);
+				}
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Recovers the edit script from the frontiers recorded by shortestEditScript
+	 * @param trace - Frontier at the start of each edit distance
+	 * @param x - Length of the original string
+	 * @param y - Length of the changed string
+	 * @param offset - Index of diagonal 0 in each frontier
+	 * @returns One operation per character, in order
+	 */
+	private backtrack(trace: Int32Array[], x: number, y: number, offset: number): EditOperation[] {
+		const operations: EditOperation[] = [];
+
+		for (let distance = trace.length - 1; distance > 0; distance--) {
+			const frontier = trace[distance];
+			const diagonal = x - y;
+			const fromAbove =
+				diagonal === -distance ||
+				(diagonal !== distance &&
+					frontier[offset + diagonal - 1] < frontier[offset + diagonal + 1]);
+			const previousX = frontier[offset + (fromAbove ? diagonal + 1 : diagonal - 1)];
+			const previousY = previousX - (fromAbove ? diagonal + 1 : diagonal - 1);
+
+			while (x > previousX && y > previousY) {
+				operations.push('equal');
+				x--;
+				y--;
+			}
+			operations.push(fromAbove ? 'insert' : 'delete');
+			x = previousX;
+			y = previousY;
+		}
+		while (x > 0 && y > 0) {
+			operations.push('equal');
+			x--;
+			y--;
+		}
+
+		return operations.reverse();
+	}
+
+	/**
+	 * Parses JSON text
+	 * @param text - The text to parse
+	 * @returns The parsed value, or undefined if the text is not valid JSON
+	 */
+	private tryParse(text: string): { value: unknown } | undefined {
+		try {
+			return { value: JSON.parse(text) };
+		} catch {
+			return undefined;
+		}
+	}
+}
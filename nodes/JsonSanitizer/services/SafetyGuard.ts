@@ -0,0 +1,163 @@
+/**
+ * Safeguards for untrusted input: size and shape limits and prototype-polluting keys
+ */
+
+import { PrototypeKeyPolicy, SafetyLimits } from '../types';
+import { JsonTextScanner } from './JsonTextScanner';
+import { SanitizerError } from './SanitizerError';
+import { formatFieldPath, PathSegment } from './fieldPath';
+import { PROTOTYPE_KEYS } from './jsonValue';
+
+/**
+ * Limits applied by the node when the Options collection does not override them
+ */
+export const DEFAULT_SAFETY_LIMITS: SafetyLimits = {
+	maxInputBytes: 50 * 1024 * 1024,
+	maxDepth: 100,
+	maxKeys: 10000,
+	maxArrayLength: 1000000,
+};
+
+const textScanner = new JsonTextScanner();
+
+/**
+ * Result of inspecting a value
+ */
+export interface GuardedValue {
+	/** The value, copied only where prototype keys were stripped */
+	value: unknown;
+	/** Paths of the prototype keys that were removed */
+	strippedKeys: string[];
+}
+
+/**
+ * Enforces input size, nesting depth, key count and array length limits, and strips or
+ * rejects prototype-polluting keys. A limit of 0 (or an omitted limit) is not enforced
+ */
+export class SafetyGuard {
+	/**
+	 * Checks the size of an input before it is processed
+	 * @param byteLength - Size of the input in bytes
+	 * @param limits - Configured limits
+	 * @throws SanitizerError of type SAFETY_LIMIT_ERROR if the input is too large
+	 */
+	checkInputSize(byteLength: number, limits: Partial<SafetyLimits>): void {
+		if (limits.maxInputBytes && byteLength > limits.maxInputBytes) {
+			throw new SanitizerError(
+				`Input size of ${byteLength} bytes exceeds the limit of ${limits.maxInputBytes} bytes`,
+				'SAFETY_LIMIT_ERROR',
+			);
+		}
+	}
+
+	/**
+	 * Checks how deeply the brackets of input text nest, before any parser or repair tier reads it,
+	 * so that deeply nested input fails early instead of exhausting memory during repair
+	 * @param text - The input text
+	 * @param limits - Configured limits
+	 * @throws SanitizerError of type SAFETY_LIMIT_ERROR if the brackets nest deeper than the limit
+	 */
+	checkTextDepth(text: string, limits: Partial<SafetyLimits>): void {
+		if (!limits.maxDepth) return;
+
+		let depth = 0;
+		for (let position = 0; position < text.length; position++) {
+			const char = text[position];
+			// Only double quotes delimit strings here: an apostrophe in prose must not hide the rest
+			if (char === '"') {
+				position = textScanner.skipString(text, position) - 1;
+			} else if (char === '{' || char === '[') {
+				depth++;
+				if (depth > limits.maxDepth) {
+					throw new SanitizerError(
+						`Nesting depth exceeds the limit of ${limits.maxDepth} at offset ${position}`,
+						'SAFETY_LIMIT_ERROR',
+					);
+				}
+			} else if ((char === '}' || char === ']') && depth > 0) {
+				depth--;
+			}
+		}
+	}
+
+	/**
+	 * Walks a parsed value, enforcing the structural limits and the prototype key policy
+	 * @param value - The value to inspect
+	 * @param limits - Configured limits
+	 * @param prototypeKeys - What to do with prototype keys (left alone when undefined)
+	 * @returns The value without stripped keys, and their paths
+	 * @throws SanitizerError of type SAFETY_LIMIT_ERROR on the first violation
+	 */
+	inspect(
+		value: unknown,
+		limits: Partial<SafetyLimits>,
+		prototypeKeys?: PrototypeKeyPolicy,
+	): GuardedValue {
+		const strippedKeys: string[] = [];
+		const walk = (current: unknown, path: PathSegment[], depth: number): unknown => {
+			if (typeof current !== 'object' || current === null) return current;
+
+			if (limits.maxDepth && depth > limits.maxDepth) {
+				this.fail(`Nesting depth exceeds the limit of ${limits.maxDepth}`, path);
+			}
+
+			if (Array.isArray(current)) {
+				if (limits.maxArrayLength && current.length > limits.maxArrayLength) {
+					this.fail(
+						`Array of ${current.length} items exceeds the limit of ${limits.maxArrayLength}`,
+						path,
+					);
+				}
+
+				let copy: unknown[] | undefined;
+				current.forEach((item, index) => {
+					const next = walk(item, [...path, index], depth + 1);
+					if (next !== item) {
+						copy = copy ?? current.slice();
+						copy[index] = next;
+					}
+				});
+				return copy ?? current;
+			}
+
+			const keys = Object.keys(current);
+			if (limits.maxKeys && keys.length > limits.maxKeys) {
+				this.fail(`Object with ${keys.length} keys exceeds the limit of ${limits.maxKeys}`, path);
+			}
+
+			let changed = false;
+			const entries: Array<[string, unknown]> = [];
+			for (const key of keys) {
+				const isPrototypeKey =
+					prototypeKeys === 'stripProto' ? key === '__proto__' : PROTOTYPE_KEYS.includes(key);
+				if (prototypeKeys && isPrototypeKey) {
+					if (prototypeKeys === 'reject') {
+						this.fail(`Prototype-polluting key '${key}' is not allowed`, [...path, key]);
+					}
+					strippedKeys.push(formatFieldPath([...path, key]));
+					changed = true;
+					continue;
+				}
+
+				const item = (current as Record<string, unknown>)[key];
+				const next = walk(item, [...path, key], depth + 1);
+				changed = changed || next !== item;
+				entries.push([key, next]);
+			}
+			return changed ? Object.fromEntries(entries) : current;
+		};
+
+		return { value: walk(value, [], 1), strippedKeys };
+	}
+
+	/**
+	 * Throws a safety limit error for a location in the value
+	 * @param reason - Which limit was exceeded
+	 * @param path - Location of the offending value
+	 * @throws SanitizerError of type SAFETY_LIMIT_ERROR
+	 */
+	private fail(reason: string, path: PathSegment[]): never {
+		const location = path.length === 0 ? 'the root' : `'${formatFieldPath(path)}'`;
+		throw new SanitizerError(`${reason} at ${location}`, 'SAFETY_LIMIT_ERROR');
+	}
+}
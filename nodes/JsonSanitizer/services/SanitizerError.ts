@@ -0,0 +1,26 @@
+/**
+ * Typed error raised by the sanitization services
+ */
+
+import { ProcessingError, ProcessingErrorType } from '../types/enhanced';
+
+/**
+ * Extra structured details carried alongside the error message
+ */
+export type SanitizerErrorDetails = Omit<ProcessingError, 'message' | 'itemIndex' | 'type'>;
+
+/**
+ * Error that knows which ProcessingError category it belongs to, so the
+ * node processor can report it without guessing from the message
+ */
+export class SanitizerError extends Error {
+	readonly type: ProcessingErrorType;
+	readonly details: SanitizerErrorDetails;
+
+	constructor(message: string, type: ProcessingErrorType, details: SanitizerErrorDetails = {}) {
+		super(message);
+		this.name = 'SanitizerError';
+		this.type = type;
+		this.details = details;
+	}
+}
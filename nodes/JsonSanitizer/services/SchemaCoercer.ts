@@ -0,0 +1,415 @@
+/**
+ * Schema-guided coercion of parsed values (types, enums, dates and defaults)
+ */
+
+import { SchemaCoercion } from '../types/enhanced';
+import { JsonSchema, JsonSchemaValidator } from './JsonSchemaValidator';
+import { SanitizerError } from './SanitizerError';
+import { formatFieldPath, PathSegment } from './fieldPath';
+import { escapePointer, isPlainObject } from './jsonValue';
+
+/**
+ * Coerced value and the changes that were made
+ */
+export interface CoercionResult {
+	value: unknown;
+	coercions: SchemaCoercion[];
+}
+
+/**
+ * Settings for a single coercion run
+ */
+export interface CoercionOptions {
+	/** Remove properties that the schema does not declare */
+	removeAdditional?: boolean;
+	/** Dot-notation paths of numbers kept as strings by the lossless parser, which are left alone */
+	preservedPaths?: string[];
+}
+
+/**
+ * Resolved settings shared by every node of a coercion run
+ */
+interface CoercionState {
+	removeAdditional: boolean;
+	preserved: Set<string>;
+	coercions: SchemaCoercion[];
+}
+
+/** Guard against $ref cycles that never consume any data */
+const MAX_SCHEMA_DEPTH = 256;
+
+const NUMBER_STRING = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const TRUE_STRINGS = ['true', 'yes', '1'];
+const FALSE_STRINGS = ['false', 'no', '0'];
+
+/** Values that already have the shape the date formats require */
+const DATE_FORMATS: Record<string, RegExp> = {
+	'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+	date: /^\d{4}-\d{2}-\d{2}$/,
+};
+
+/** ISO 8601 dates and date-times, the only strings read as dates; the time zone is optional */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Timestamps below this are read as Unix seconds, the rest as milliseconds (year 5138 in seconds) */
+const MAX_UNIX_SECONDS = 1e11;
+
+/**
+ * Coerces parsed values to the types a JSON Schema declares. Strings become numbers, integers,
+ * booleans or null where the schema expects them, single values are wrapped in an array, enum
+ * strings are matched case-insensitively, dates are rewritten in the declared format, missing
+ * properties get their defaults and undeclared properties can be removed. Values that cannot
+ * be coerced are left for validation to report.
+ */
+export class SchemaCoercer {
+	private readonly root: JsonSchema;
+	private readonly refs: JsonSchemaValidator;
+
+	/**
+	 * @param schema - The JSON Schema to coerce to
+	 * @throws SanitizerError if the schema is not an object or boolean
+	 */
+	constructor(schema: unknown) {
+		this.refs = new JsonSchemaValidator(schema);
+		this.root = schema as JsonSchema;
+	}
+
+	/**
+	 * Coerces a value to the schema without mutating it
+	 * @param value - Parsed value
+	 * @param options - Coercion settings
+	 * @returns The coerced value and every change, in document order
+	 * @throws SanitizerError if the schema has an unresolvable or circular $ref
+	 */
+	coerce(value: unknown, options: CoercionOptions = {}): CoercionResult {
+		const state: CoercionState = {
+			removeAdditional: options.removeAdditional === true,
+			preserved: new Set(options.preservedPaths ?? []),
+			coercions: [],
+		};
+
+		return { value: this.coerceNode(value, this.root, [], state, 0), coercions: state.coercions };
+	}
+
+	/**
+	 * Coerces a value to a schema node
+	 * @param value - The value to coerce
+	 * @param schema - The schema node
+	 * @param path - Location of the value
+	 * @param state - Settings and collected changes
+	 * @param depth - Current schema recursion depth
+	 * @returns The coerced value (the same value if nothing changed)
+	 */
+	private coerceNode(
+		value: unknown,
+		schema: JsonSchema,
+		path: PathSegment[],
+		state: CoercionState,
+		depth: number,
+	): unknown {
+		if (depth > MAX_SCHEMA_DEPTH) {
+			throw new SanitizerError(
+				'JSON Schema is nested too deeply or contains a circular $ref',
+				'VALIDATION_ERROR',
+			);
+		}
+		if (typeof schema === 'boolean') return value;
+
+		let current = value;
+		if (typeof schema.$ref === 'string') {
+			current = this.coerceNode(current, this.refs.resolveRef(schema.$ref), path, state, depth + 1);
+		}
+		if (Array.isArray(schema.allOf)) {
+			for (const subschema of schema.allOf as JsonSchema[]) {
+				current = this.coerceNode(current, subschema, path, state, depth + 1);
+			}
+		}
+
+		current = this.coerceValue(current, schema, path, state);
+		if (Array.isArray(current)) return this.coerceArray(current, schema, path, state, depth);
+		if (isPlainObject(current)) return this.coerceObject(current, schema, path, state, depth);
+		return current;
+	}
+
+	/**
+	 * Applies the format, type and enum coercions of a schema node to a value
+	 * @param value - The value to coerce
+	 * @param schema - The schema node
+	 * @param path - Location of the value
+	 * @param state - Settings and collected changes
+	 * @returns The coerced value
+	 */
+	private coerceValue(
+		value: unknown,
+		schema: Record<string, unknown>,
+		path: PathSegment[],
+		state: CoercionState,
+	): unknown {
+		// Converting a preserved number would lose the digits it was kept for
+		if (state.preserved.has(formatFieldPath(path))) return value;
+
+		let current = value;
+		const record = (action: SchemaCoercion['action'], to: unknown) => {
+			state.coercions.push({ instancePath: this.toPointer(path), action, from: current, to });
+			current = to;
+		};
+
+		if (typeof schema.format === 'string' && DATE_FORMATS[schema.format]) {
+			const date = this.toDate(current, schema.format);
+			if (date !== undefined && date !== current) record('formatDate', date);
+		}
+
+		if (schema.type !== undefined) {
+			const types = Array.isArray(schema.type)
+				? (schema.type as string[])
+				: [schema.type as string];
+			if (!types.some((type) => this.hasType(current, type))) {
+				for (const type of types) {
+					const converted = this.convert(current, type);
+					if (converted) {
+						record('coerceType', converted.value);
+						break;
+					}
+				}
+			}
+		}
+
+		if (
+			Array.isArray(schema.enum) &&
+			typeof current === 'string' &&
+			!schema.enum.includes(current)
+		) {
+			const wanted = current.trim().toLowerCase();
+			const match = schema.enum.find(
+				(option) => typeof option === 'string' && option.toLowerCase() === wanted,
+			);
+			if (match !== undefined) record('matchEnum', match);
+		}
+
+		return current;
+	}
+
+	/**
+	 * Coerces the items of an array to the items, prefixItems and additionalItems keywords
+	 * @param value - The array
+	 * @param schema - The schema node
+	 * @param path - Location of the array
+	 * @param state - Settings and collected changes
+	 * @param depth - Current schema recursion depth
+	 * @returns A new array if an item changed, otherwise the same array
+	 */
+	private coerceArray(
+		value: unknown[],
+		schema: Record<string, unknown>,
+		path: PathSegment[],
+		state: CoercionState,
+		depth: number,
+	): unknown[] {
+		// Draft 2020-12 uses prefixItems + items, draft-07 uses an items array + additionalItems
+		const tuple = Array.isArray(schema.prefixItems)
+			? schema.prefixItems
+			: Array.isArray(schema.items)
+				? schema.items
+				: [];
+		const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+
+		let changed = false;
+		const items = value.map((item, index) => {
+			const itemSchema = (index < tuple.length ? tuple[index] : rest) as JsonSchema | undefined;
+			if (itemSchema === undefined) return item;
+
+			const next = this.coerceNode(item, itemSchema, [...path, index], state, depth + 1);
+			if (next !== item) changed = true;
+			return next;
+		});
+
+		return changed ? items : value;
+	}
+
+	/**
+	 * Coerces the properties of an object, fills in defaults and removes undeclared properties
+	 * @param value - The object
+	 * @param schema - The schema node
+	 * @param path - Location of the object
+	 * @param state - Settings and collected changes
+	 * @param depth - Current schema recursion depth
+	 * @returns A new object if anything changed, otherwise the same object
+	 */
+	private coerceObject(
+		value: Record<string, unknown>,
+		schema: Record<string, unknown>,
+		path: PathSegment[],
+		state: CoercionState,
+		depth: number,
+	): Record<string, unknown> {
+		const properties = isPlainObject(schema.properties) ? schema.properties : {};
+		const patterns = isPlainObject(schema.patternProperties)
+			? Object.entries(schema.patternProperties).map(
+					([pattern, subschema]) => [new RegExp(pattern, 'u'), subschema as JsonSchema] as const,
+				)
+			: [];
+		const additional = schema.additionalProperties as JsonSchema | undefined;
+		// Without declared properties every key would be undeclared, so nothing is removed
+		const removesUndeclared =
+			state.removeAdditional && (isPlainObject(schema.properties) || patterns.length > 0);
+
+		const entries: Array<[string, unknown]> = [];
+		let changed = false;
+
+		for (const [key, item] of Object.entries(value)) {
+			const subschemas: JsonSchema[] = [];
+			if (Object.prototype.hasOwnProperty.call(properties, key)) {
+				subschemas.push(properties[key] as JsonSchema);
+			}
+			for (const [pattern, subschema] of patterns) {
+				if (pattern.test(key)) subschemas.push(subschema);
+			}
+
+			if (subschemas.length === 0) {
+				if (isPlainObject(additional)) {
+					subschemas.push(additional);
+				} else if (removesUndeclared) {
+					state.coercions.push({
+						instancePath: this.toPointer([...path, key]),
+						action: 'removeProperty',
+						from: item,
+					});
+					changed = true;
+					continue;
+				}
+			}
+
+			let next = item;
+			for (const subschema of subschemas) {
+				next = this.coerceNode(next, subschema, [...path, key], state, depth + 1);
+			}
+			if (next !== item) changed = true;
+			entries.push([key, next]);
+		}
+
+		for (const [key, subschema] of Object.entries(properties)) {
+			if (Object.prototype.hasOwnProperty.call(value, key)) continue;
+
+			const declared = this.findDefault(subschema as JsonSchema, depth + 1);
+			if (!declared) continue;
+
+			// Defaults are copied so that items never share (and later mutate) the schema's value
+			const filled = JSON.parse(JSON.stringify(declared.value)) as unknown;
+			state.coercions.push({
+				instancePath: this.toPointer([...path, key]),
+				action: 'fillDefault',
+				to: filled,
+			});
+			entries.push([key, filled]);
+			changed = true;
+		}
+
+		return changed ? Object.fromEntries(entries) : value;
+	}
+
+	/**
+	 * Finds the default of a property schema, following $ref
+	 * @param schema - The property schema
+	 * @param depth - Current schema recursion depth
+	 * @returns The default, or undefined if the schema declares none
+	 */
+	private findDefault(schema: JsonSchema, depth: number): { value: unknown } | undefined {
+		if (typeof schema === 'boolean' || depth > MAX_SCHEMA_DEPTH) return undefined;
+		if ('default' in schema && schema.default !== undefined) return { value: schema.default };
+		if (typeof schema.$ref === 'string') {
+			return this.findDefault(this.refs.resolveRef(schema.$ref), depth + 1);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Checks whether a value already has a JSON Schema type
+	 * @param value - The value to check
+	 * @param type - Type name as used by the "type" keyword
+	 * @returns True if the value matches the type
+	 */
+	private hasType(value: unknown, type: string): boolean {
+		switch (type) {
+			case 'null':
+				return value === null;
+			case 'array':
+				return Array.isArray(value);
+			case 'object':
+				return isPlainObject(value);
+			case 'integer':
+				return typeof value === 'number' && Number.isInteger(value);
+			default:
+				return typeof value === type;
+		}
+	}
+
+	/**
+	 * Converts a value to a JSON Schema type
+	 * @param value - The value to convert
+	 * @param type - Type name as used by the "type" keyword
+	 * @returns The converted value, or undefined if the value cannot be converted
+	 */
+	private convert(value: unknown, type: string): { value: unknown } | undefined {
+		const text = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+
+		switch (type) {
+			case 'number':
+			case 'integer': {
+				if (text === undefined || !NUMBER_STRING.test(text)) return undefined;
+				const number = Number(text);
+				return Number.isFinite(number) && (type === 'number' || Number.isInteger(number))
+					? { value: number }
+					: undefined;
+			}
+			case 'boolean':
+				if (TRUE_STRINGS.includes(text ?? '') || value === 1) return { value: true };
+				if (FALSE_STRINGS.includes(text ?? '') || value === 0) return { value: false };
+				return undefined;
+			case 'string':
+				return typeof value === 'number' || typeof value === 'boolean'
+					? { value: String(value) }
+					: undefined;
+			case 'null':
+				return text === 'null' ? { value: null } : undefined;
+			case 'array':
+				return value === null || value === undefined ? undefined : { value: [value] };
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Rewrites a date or timestamp in a date format
+	 * @param value - An ISO 8601 date string or a Unix timestamp (seconds or milliseconds)
+	 * @param format - 'date-time' (ISO 8601 in UTC) or 'date' (YYYY-MM-DD)
+	 * @returns The formatted date, the value itself if it already has the format, or undefined
+	 * if it is not a recognizable date. Other strings are left for validation to report, since
+	 * Date parsing reads values such as "12" as arbitrary dates
+	 */
+	private toDate(value: unknown, format: string): string | undefined {
+		if (typeof value === 'string') {
+			if (DATE_FORMATS[format].test(value)) return value;
+			if (!ISO_DATE.test(value) || isNaN(Date.parse(value))) return undefined;
+			// An ISO date-time keeps its calendar date
+			if (format === 'date') return value.slice(0, 10);
+		} else if (typeof value !== 'number') {
+			return undefined;
+		}
+
+		const date =
+			typeof value === 'number'
+				? new Date(Math.abs(value) < MAX_UNIX_SECONDS ? value * 1000 : value)
+				: new Date(value);
+		if (isNaN(date.getTime())) return undefined;
+		return format === 'date-time' ? date.toISOString() : date.toISOString().slice(0, 10);
+	}
+
+	/**
+	 * Builds the JSON Pointer of a location (RFC 6901)
+	 * @param path - Location as path segments
+	 * @returns JSON Pointer (empty string for the root)
+	 */
+	private toPointer(path: PathSegment[]): string {
+		return path.map((segment) => '/' + escapePointer(segment)).join('');
+	}
+}
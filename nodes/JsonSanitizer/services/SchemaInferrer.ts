@@ -0,0 +1,277 @@
+/**
+ * Inference of a JSON Schema and TypeScript types from sample values
+ */
+
+import { FORMAT_CHECKS } from './JsonSchemaValidator';
+
+/**
+ * JSON Schema type names produced by inference
+ */
+export type InferredType =
+	| 'null'
+	| 'boolean'
+	| 'integer'
+	| 'number'
+	| 'string'
+	| 'array'
+	| 'object';
+
+/**
+ * JSON Schema (draft 2020-12) describing the samples
+ */
+export interface InferredSchema {
+	$schema?: string;
+	type?: InferredType | InferredType[];
+	format?: string;
+	properties?: Record<string, InferredSchema>;
+	required?: string[];
+	items?: InferredSchema;
+}
+
+/**
+ * Everything seen at one location across all samples
+ */
+interface Shape {
+	types: Set<InferredType>;
+	/** Format shared by every string seen (null once two strings disagree) */
+	format?: string | null;
+	/** Number of objects seen, to tell required properties from optional ones */
+	objectCount: number;
+	properties: Map<string, { shape: Shape; count: number }>;
+	items?: Shape;
+}
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Formats that are detected, most specific first */
+const INFERRED_FORMATS = ['date-time', 'date', 'uuid', 'email', 'ipv4', 'uri'];
+
+/** Order of the types in a union */
+const TYPE_ORDER: InferredType[] = [
+	'object',
+	'array',
+	'string',
+	'integer',
+	'number',
+	'boolean',
+	'null',
+];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * TypeScript declarations being written, and the type names already taken
+ */
+interface Declarations {
+	code: string[];
+	names: Set<string>;
+}
+
+/**
+ * Infers a JSON Schema from sample values, and TypeScript types from the inferred schema
+ */
+export class SchemaInferrer {
+	/**
+	 * Infers the schema that every sample matches. Properties present in every object are
+	 * required, different types at the same location become a union, and strings that all share
+	 * a format (date-time, date, uuid, email, ipv4 or uri) get that format
+	 * @param samples - Parsed values, such as the results of every item
+	 * @returns JSON Schema (draft 2020-12)
+	 */
+	infer(samples: unknown[]): InferredSchema {
+		const shape = this.createShape();
+		for (const sample of samples) this.addSample(shape, sample);
+
+		return { $schema: SCHEMA_DIALECT, ...this.toSchema(shape) };
+	}
+
+	/**
+	 * Writes TypeScript declarations for an inferred schema; nested objects get their own
+	 * interfaces named after the path to them
+	 * @param schema - Schema returned by infer
+	 * @param typeName - Name of the root type
+	 * @returns Declarations, root type first
+	 */
+	toTypeScript(schema: InferredSchema, typeName: string): string {
+		const declarations: Declarations = { code: [], names: new Set() };
+		const rootName = this.toTypeName(typeName) || 'Item';
+
+		if (schema.type === 'object') {
+			this.declareInterface(schema, rootName, declarations);
+		} else {
+			declarations.names.add(rootName);
+			const type = this.typeOf(schema, rootName, declarations);
+			declarations.code.unshift(`export type ${rootName} = ${type};`);
+		}
+
+		return declarations.code.join('\n\n') + '\n';
+	}
+
+	/**
+	 * Creates an empty shape
+	 * @returns Shape that has seen no values
+	 */
+	private createShape(): Shape {
+		return { types: new Set(), objectCount: 0, properties: new Map() };
+	}
+
+	/**
+	 * Merges a value into a shape
+	 * @param shape - Shape of the value's location
+	 * @param value - The value
+	 */
+	private addSample(shape: Shape, value: unknown): void {
+		if (value === null || value === undefined) {
+			shape.types.add('null');
+		} else if (Array.isArray(value)) {
+			shape.types.add('array');
+			shape.items ??= this.createShape();
+			for (const item of value) this.addSample(shape.items, item);
+		} else if (typeof value === 'object') {
+			shape.types.add('object');
+			shape.objectCount++;
+			for (const [key, item] of Object.entries(value)) {
+				let property = shape.properties.get(key);
+				if (!property) {
+					property = { shape: this.createShape(), count: 0 };
+					shape.properties.set(key, property);
+				}
+				property.count++;
+				this.addSample(property.shape, item);
+			}
+		} else if (typeof value === 'number') {
+			shape.types.add(Number.isInteger(value) ? 'integer' : 'number');
+		} else if (typeof value === 'string') {
+			shape.types.add('string');
+			const format = this.detectFormat(value);
+			shape.format = shape.format === undefined || shape.format === format ? format : null;
+		} else if (typeof value === 'boolean') {
+			shape.types.add('boolean');
+		}
+	}
+
+	/**
+	 * Finds the format of a string
+	 * @param value - The string
+	 * @returns The first matching format, or null if none matches
+	 */
+	private detectFormat(value: string): string | null {
+		const format = INFERRED_FORMATS.find((name) => FORMAT_CHECKS[name](value));
+		// The uri check accepts any "scheme:rest", which would include text like "note:x"
+		if (format === 'uri' && !/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return null;
+		return format ?? null;
+	}
+
+	/**
+	 * Converts a shape into a schema
+	 * @param shape - The shape
+	 * @returns Schema describing every value merged into the shape
+	 */
+	private toSchema(shape: Shape): InferredSchema {
+		const types = new Set(shape.types);
+		// Every integer is a number
+		if (types.has('number')) types.delete('integer');
+		const ordered = TYPE_ORDER.filter((type) => types.has(type));
+		if (ordered.length === 0) return {};
+
+		const schema: InferredSchema = { type: ordered.length === 1 ? ordered[0] : ordered };
+		if (types.has('string') && shape.format) schema.format = shape.format;
+
+		if (types.has('object')) {
+			const properties = [...shape.properties];
+			// fromEntries defines own properties, so a "__proto__" key stays a plain key
+			schema.properties = Object.fromEntries(
+				properties.map(([key, property]) => [key, this.toSchema(property.shape)]),
+			);
+			const required = properties
+				.filter(([, property]) => property.count === shape.objectCount)
+				.map(([key]) => key);
+			if (required.length > 0) schema.required = required;
+		}
+
+		if (types.has('array') && shape.items && shape.items.types.size > 0) {
+			schema.items = this.toSchema(shape.items);
+		}
+
+		return schema;
+	}
+
+	/**
+	 * Adds the interface for an object schema, and the interfaces of its nested objects
+	 * @param schema - Object schema
+	 * @param name - Preferred interface name
+	 * @param declarations - Accumulator for declarations
+	 * @returns The interface name, with a number appended if the preferred name was taken
+	 */
+	private declareInterface(
+		schema: InferredSchema,
+		name: string,
+		declarations: Declarations,
+	): string {
+		let unique = name;
+		for (let suffix = 2; declarations.names.has(unique); suffix++) unique = `${name}${suffix}`;
+		declarations.names.add(unique);
+
+		const index = declarations.code.length;
+		declarations.code.push('');
+
+		const required = new Set(schema.required ?? []);
+		const members = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+			const comment = property.format ? `\t/** Format: ${property.format} */\n` : '';
+			const member = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+			const optional = required.has(key) ? '' : '?';
+			const type = this.typeOf(property, unique + this.toTypeName(key), declarations);
+			return `${comment}\t${member}${optional}: ${type};`;
+		});
+
+		declarations.code[index] =
+			members.length > 0
+				? `export interface ${unique} {\n${members.join('\n')}\n}`
+				: `export type ${unique} = Record<string, unknown>;`;
+		return unique;
+	}
+
+	/**
+	 * Writes the TypeScript type of a schema
+	 * @param schema - The schema
+	 * @param name - Preferred interface name, if the schema describes objects
+	 * @param declarations - Accumulator for declarations
+	 * @returns Type expression
+	 */
+	private typeOf(schema: InferredSchema, name: string, declarations: Declarations): string {
+		if (schema.type === undefined) return 'unknown';
+
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		const parts = types.map((type) => {
+			switch (type) {
+				case 'object':
+					return this.declareInterface(schema, name, declarations);
+				case 'array': {
+					if (!schema.items) return 'unknown[]';
+					const item = this.typeOf(schema.items, `${name}Item`, declarations);
+					return item.includes(' | ') ? `Array<${item}>` : `${item}[]`;
+				}
+				case 'integer':
+					return 'number';
+				default:
+					return type;
+			}
+		});
+
+		return parts.join(' | ');
+	}
+
+	/**
+	 * Converts a key or configured name into a PascalCase type name
+	 * @param text - Property key or type name
+	 * @returns PascalCase identifier (empty if the text has no letters or digits)
+	 */
+	private toTypeName(text: string): string {
+		const name = text
+			.split(/[^A-Za-z0-9]+/)
+			.filter((word) => word !== '')
+			.map((word) => word[0].toUpperCase() + word.slice(1))
+			.join('');
+		return /^\d/.test(name) ? `_${name}` : name;
+	}
+}
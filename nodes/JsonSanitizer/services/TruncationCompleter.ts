@@ -0,0 +1,271 @@
+/**
+ * Completion of JSON text that was cut off before its end
+ */
+
+import { TruncationReport } from '../types';
+import { formatFieldPath, PathSegment } from './fieldPath';
+
+/**
+ * Completed text together with what was done to it
+ */
+export interface TruncationCompletion {
+	text: string;
+	report: TruncationReport;
+}
+
+/**
+ * An object or array that is open at the current position
+ */
+interface Frame {
+	type: 'object' | 'array';
+	/** The object or array this one is nested in (undefined for the root) */
+	parent?: Frame;
+	/** Key or index of this object or array within its parent */
+	segment?: PathSegment;
+	/**
+	 * key: a key (or the closing brace) comes next; colon: a key was read; value: a value comes
+	 * next; comma: a value was read
+	 */
+	state: 'key' | 'colon' | 'value' | 'comma';
+	/** Offset where the current entry starts, including the comma before it */
+	entryStart: number;
+	/** Key of the current entry (objects) */
+	key?: string;
+	/** Index of the current element (arrays) */
+	index: number;
+}
+
+const LITERALS = ['true', 'false', 'null'];
+const NUMBER_PREFIX = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+const TOKEN_END = /[\s,:[\]{}"']/;
+
+/** Most open objects and arrays listed in the report, which keeps it small for deep nesting */
+const MAX_REPORTED_PATHS = 100;
+
+/**
+ * Closes the strings, arrays and objects left open by input that ended early, such as an LLM
+ * reply cut off at its token limit, and reports what was incomplete
+ */
+export class TruncationCompleter {
+	/**
+	 * Completes truncated JSON text
+	 * @param text - Cleaned JSON text
+	 * @returns The completed text and the truncation report, or undefined if the text does not end
+	 * inside an object or array (it is complete, or broken in some other way)
+	 */
+	complete(text: string): TruncationCompletion | undefined {
+		const stack: Frame[] = [];
+		let position = 0;
+
+		while (position < text.length) {
+			const char = text[position];
+			const frame = stack[stack.length - 1];
+
+			if (/\s/.test(char)) {
+				position++;
+			} else if (char === '{' || char === '[') {
+				if (frame) frame.state = 'comma';
+				stack.push({
+					type: char === '{' ? 'object' : 'array',
+					parent: frame,
+					segment: frame ? this.entrySegment(frame) : undefined,
+					state: char === '{' ? 'key' : 'value',
+					entryStart: position + 1,
+					index: 0,
+				});
+				position++;
+			} else if (char === '}' || char === ']') {
+				if (frame?.type !== (char === '}' ? 'object' : 'array')) return undefined;
+				stack.pop();
+				position++;
+				// Content after the root value is not truncation
+				if (stack.length === 0) return undefined;
+			} else if (!frame) {
+				// Only input that opens an object or array can be completed
+				return undefined;
+			} else if (char === ':') {
+				frame.state = 'value';
+				position++;
+			} else if (char === ',') {
+				if (frame.type === 'array') frame.index++;
+				frame.state = frame.type === 'object' ? 'key' : 'value';
+				frame.entryStart = position;
+				position++;
+			} else if (char === '"' || char === "'") {
+				// Single quotes are accepted so that input the repair tiers can fix is completed as well
+				const end = this.findStringEnd(text, position);
+				if (end === undefined) return this.finish(text, stack, { kind: 'string', start: position });
+				this.readEntry(frame, text.slice(position + 1, end - 1));
+				position = end;
+			} else {
+				const start = position;
+				while (position < text.length && !TOKEN_END.test(text[position])) position++;
+				if (position === text.length) return this.finish(text, stack, { kind: 'token', start });
+				this.readEntry(frame, text.slice(start, position));
+			}
+		}
+
+		return stack.length > 0 ? this.finish(text, stack) : undefined;
+	}
+
+	/**
+	 * Records a string or bare token read in an object or array
+	 * @param frame - The object or array it was read in
+	 * @param content - The token, or the content of the string (escapes are kept as written)
+	 */
+	private readEntry(frame: Frame, content: string): void {
+		if (frame.type === 'object' && frame.state === 'key') {
+			frame.key = content;
+			frame.state = 'colon';
+		} else {
+			frame.state = 'comma';
+		}
+	}
+
+	/**
+	 * Finds the end of a string literal
+	 * @param text - The text
+	 * @param start - Offset of the opening quote
+	 * @returns Offset just past the closing quote, or undefined if the text ends first
+	 */
+	private findStringEnd(text: string, start: number): number | undefined {
+		for (let position = start + 1; position < text.length; position++) {
+			if (text[position] === '\\') {
+				position++;
+			} else if (text[position] === text[start]) {
+				return position + 1;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Finds an escape sequence cut off by the end of the text
+	 * @param text - Text that ends inside a string
+	 * @param start - Offset of the string's opening quote
+	 * @returns Offset of the backslash that starts the incomplete escape, if there is one
+	 */
+	private findIncompleteEscape(text: string, start: number): number | undefined {
+		for (let position = start + 1; position < text.length; position++) {
+			if (text[position] !== '\\') continue;
+
+			const length = text[position + 1] === 'u' ? 6 : 2;
+			if (position + length > text.length) return position;
+			position += length - 1;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Builds the completion for text that ended with objects or arrays still open
+	 * @param text - The text
+	 * @param stack - Objects and arrays open at the end, outermost first
+	 * @param tail - The string or bare token the text ended in, if any
+	 * @returns Completed text and report
+	 */
+	private finish(
+		text: string,
+		stack: Frame[],
+		tail?: { kind: 'string' | 'token'; start: number },
+	): TruncationCompletion {
+		const frame = stack[stack.length - 1];
+		let kept = text;
+		let suffix = '';
+		let lastValuePath: PathSegment[] | undefined;
+		let droppedPath: PathSegment[] | undefined;
+
+		const isKey = frame.type === 'object' && frame.state === 'key';
+		if (tail?.kind === 'string' && !isKey) {
+			// Drop an escape sequence that was cut in half, then close the string
+			kept = text.slice(0, this.findIncompleteEscape(text, tail.start) ?? text.length);
+			suffix = text[tail.start];
+			lastValuePath = this.entryPath(frame);
+		} else if (tail?.kind === 'token' && frame.state !== 'key' && frame.state !== 'colon') {
+			const completed = this.completeToken(text.slice(tail.start));
+			if (completed === undefined) {
+				kept = text.slice(0, frame.entryStart);
+				droppedPath = this.entryPath(frame);
+			} else {
+				kept = text.slice(0, tail.start) + completed.text;
+				if (completed.partial) lastValuePath = this.entryPath(frame);
+			}
+		} else if (isKey && tail) {
+			// A partial key: drop the entry and report the key as far as it was read
+			kept = text.slice(0, frame.entryStart);
+			droppedPath = [...this.framePath(frame), text.slice(tail.kind === 'string' ? tail.start + 1 : tail.start)];
+		} else if (frame.type === 'object' && frame.state !== 'key' && frame.state !== 'comma') {
+			// A key without a value
+			kept = text.slice(0, frame.entryStart);
+			droppedPath = this.entryPath(frame);
+		} else if (frame.state !== 'comma') {
+			// A trailing comma, which loses nothing
+			kept = text.slice(0, frame.entryStart);
+		}
+
+		const closers = stack
+			.map((open) => (open.type === 'object' ? '}' : ']'))
+			.reverse()
+			.join('');
+		// Whitespace at the end of a partial string is part of its value
+		const trimmed = suffix ? kept : kept.trimEnd();
+
+		return {
+			text: trimmed + suffix + closers,
+			report: {
+				incompletePaths: stack
+					.slice(0, MAX_REPORTED_PATHS)
+					.map((open) => formatFieldPath(this.framePath(open))),
+				lastValuePartial: lastValuePath !== undefined,
+				...(lastValuePath ? { lastValuePath: formatFieldPath(lastValuePath) } : {}),
+				...(droppedPath ? { droppedPath: formatFieldPath(droppedPath) } : {}),
+			},
+		};
+	}
+
+	/**
+	 * Completes a number or literal that the text ended in
+	 * @param token - The bare token
+	 * @returns The completed token and whether its value may differ from what was sent, or
+	 * undefined if no value can be recovered
+	 */
+	private completeToken(token: string): { text: string; partial: boolean } | undefined {
+		// A finished literal is a guess: "n" could as well have been the start of a broken value
+		const literal = LITERALS.find((candidate) => candidate.startsWith(token));
+		if (literal) return { text: literal, partial: literal !== token };
+
+		// Every number could have had more digits
+		const number = NUMBER_PREFIX.exec(token);
+		return number ? { text: number[0], partial: true } : undefined;
+	}
+
+	/**
+	 * Returns the key or index of the entry being read in an object or array
+	 * @param frame - The object or array
+	 * @returns Key or index of the current entry
+	 */
+	private entrySegment(frame: Frame): PathSegment {
+		return frame.type === 'object' ? (frame.key ?? '') : frame.index;
+	}
+
+	/**
+	 * Returns the path of the entry being read in an object or array
+	 * @param frame - The object or array
+	 * @returns Path of the current entry
+	 */
+	private entryPath(frame: Frame): PathSegment[] {
+		return [...this.framePath(frame), this.entrySegment(frame)];
+	}
+
+	/**
+	 * Builds the path of an object or array from its chain of parents
+	 * @param frame - The object or array
+	 * @returns Path from the root to the frame
+	 */
+	private framePath(frame: Frame): PathSegment[] {
+		const path: PathSegment[] = [];
+		for (let open: Frame | undefined = frame; open?.parent; open = open.parent) {
+			path.push(open.segment as PathSegment);
+		}
+		return path.reverse();
+	}
+}
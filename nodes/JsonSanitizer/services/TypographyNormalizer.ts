@@ -0,0 +1,219 @@
+/**
+ * Normalizer for typographic quotes and invisible characters from LLMs and word processors
+ */
+
+import { CharacterReplacement, StringValueOptions } from '../types';
+import { JsonTextScanner } from './JsonTextScanner';
+import { formatFieldPath, PathSegment } from './fieldPath';
+
+/**
+ * Text with structural typography replaced, and what was replaced
+ */
+export interface NormalizedText {
+	text: string;
+	replacements: CharacterReplacement[];
+}
+
+/**
+ * Value with its strings normalized, and the paths of the strings that changed
+ */
+export interface NormalizedValue {
+	value: unknown;
+	changedPaths: string[];
+}
+
+/** Curly and prime quotes that word processors substitute for " and ' */
+const TYPOGRAPHIC_QUOTES = '\u201C\u201D\u201E\u201F\u2033\u2018\u2019\u201A\u201B\u2032';
+
+/** Zero-width and formatting characters that are removed between tokens */
+const INVISIBLE_CHARACTERS = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/;
+
+/**
+ * Invisible characters removed from string values; zero-width joiners are kept because
+ * emoji sequences and several scripts depend on them
+ */
+const INVISIBLE_IN_VALUES = /[\u00AD\u180E\u200B\u2060-\u2064\uFEFF]/g;
+
+/** Unicode spaces that become a plain space between tokens */
+const UNICODE_SPACES = /[\u00A0\u1680\u2000-\u200A\u202F\u205F\u3000]/;
+
+/** Unicode line breaks that become a line feed between tokens */
+const UNICODE_LINE_BREAKS = /[\u0085\u2028\u2029]/;
+
+const textScanner = new JsonTextScanner();
+
+/**
+ * Replaces typographic quotes, Unicode whitespace and invisible characters that appear in
+ * structural positions (outside string literals), and optionally normalizes string values
+ */
+export class TypographyNormalizer {
+	/**
+	 * Normalizes the characters between tokens; string literals in ASCII quotes and comments are
+	 * copied unchanged. A typographic quote opens a string that ends at the next quote (of any
+	 * kind) followed by ':', ',', '}', ']' or the end of the input, so apostrophes inside stay
+	 * @param input - JSON-like text
+	 * @returns Normalized text and a count of each replaced character
+	 */
+	normalizeStructure(input: string): NormalizedText {
+		const counts = new Map<string, CharacterReplacement>();
+		const record = (character: string, replacement: string) => {
+			const entry = counts.get(character);
+			if (entry) {
+				entry.count++;
+				return;
+			}
+			counts.set(character, {
+				character,
+				codePoint: `U+${character.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`,
+				replacement,
+				count: 1,
+			});
+		};
+
+		let output = '';
+		let position = 0;
+
+		while (position < input.length) {
+			const char = input[position];
+
+			if (char === '"' || char === "'") {
+				const end = textScanner.skipString(input, position);
+				output += input.slice(position, end);
+				position = end;
+				continue;
+			}
+
+			const commentEnd = textScanner.skipComment(input, position);
+			if (commentEnd !== position) {
+				output += input.slice(position, commentEnd);
+				position = commentEnd;
+				continue;
+			}
+
+			if (TYPOGRAPHIC_QUOTES.includes(char)) {
+				const end = this.findClosingQuote(input, position + 1);
+				if (end !== -1) {
+					record(char, '"');
+					if (input[end] !== '"') record(input[end], '"');
+					output += `"${this.escapeQuotes(input.slice(position + 1, end))}"`;
+					position = end + 1;
+					continue;
+				}
+			} else if (INVISIBLE_CHARACTERS.test(char)) {
+				record(char, '');
+				position++;
+				continue;
+			} else if (UNICODE_SPACES.test(char) || UNICODE_LINE_BREAKS.test(char)) {
+				const replacement = UNICODE_SPACES.test(char) ? ' ' : '\n';
+				record(char, replacement);
+				output += replacement;
+				position++;
+				continue;
+			}
+
+			output += char;
+			position++;
+		}
+
+		return { text: output, replacements: [...counts.values()] };
+	}
+
+	/**
+	 * Applies Unicode normalization and invisible character removal to every string value
+	 * (object keys are left unchanged), without mutating the input
+	 * @param value - Parsed value
+	 * @param options - Which normalizations to apply
+	 * @returns The normalized value and the paths of the strings that changed
+	 */
+	normalizeValues(value: unknown, options: StringValueOptions): NormalizedValue {
+		const changedPaths: string[] = [];
+		const form = options.unicodeForm ?? 'none';
+
+		const walk = (current: unknown, path: PathSegment[]): unknown => {
+			if (typeof current === 'string') {
+				let next = form === 'none' ? current : current.normalize(form);
+				if (options.stripInvisible) next = next.replace(INVISIBLE_IN_VALUES, '');
+				if (next !== current) changedPaths.push(formatFieldPath(path));
+				return next;
+			}
+
+			if (Array.isArray(current)) {
+				return current.map((item, index) => walk(item, [...path, index]));
+			}
+
+			if (typeof current === 'object' && current !== null) {
+				return Object.fromEntries(
+					Object.entries(current).map(([key, item]) => [key, walk(item, [...path, key])]),
+				);
+			}
+
+			return current;
+		};
+
+		const normalized = walk(value, []);
+		return { value: changedPaths.length > 0 ? normalized : value, changedPaths };
+	}
+
+	/**
+	 * Finds the quote that closes a string opened by a typographic quote
+	 * @param input - The input string
+	 * @param start - Offset just past the opening quote
+	 * @returns Offset of the closing quote, or -1 if the line ends first
+	 */
+	private findClosingQuote(input: string, start: number): number {
+		for (let position = start; position < input.length; position++) {
+			const char = input[position];
+			if (char === '\\') {
+				position++;
+				continue;
+			}
+			if (char === '\n' || char === '\r') return -1;
+
+			if (
+				(TYPOGRAPHIC_QUOTES.includes(char) || char === '"' || char === "'") &&
+				this.endsValue(input, position + 1)
+			) {
+				return position;
+			}
+		}
+
+		return -1;
+	}
+
+	/**
+	 * Checks whether only whitespace separates an offset from a token that may follow a string
+	 * @param input - The input string
+	 * @param position - Offset just past a candidate closing quote
+	 * @returns True if ':', ',', '}', ']' or the end of the input comes next
+	 */
+	private endsValue(input: string, position: number): boolean {
+		let next = position;
+		while (
+			next < input.length &&
+			(/\s/.test(input[next]) || INVISIBLE_CHARACTERS.test(input[next]))
+		) {
+			next++;
+		}
+
+		return next === input.length || ':,}]'.includes(input[next]);
+	}
+
+	/**
+	 * Escapes the ASCII double quotes in the content of a converted string
+	 * @param content - Text between the typographic quotes
+	 * @returns Content that can be wrapped in ASCII double quotes
+	 */
+	private escapeQuotes(content: string): string {
+		let output = '';
+		for (let position = 0; position < content.length; position++) {
+			if (content[position] === '\\') {
+				output += content.slice(position, position + 2);
+				position++;
+			} else {
+				output += content[position] === '"' ? '\\"' : content[position];
+			}
+		}
+
+		return output;
+	}
+}
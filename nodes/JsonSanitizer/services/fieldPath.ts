@@ -0,0 +1,232 @@
+/**
+ * Helpers for describing locations inside parsed JSON values
+ */
+
+import { SanitizerError } from './SanitizerError';
+import { PROTOTYPE_KEYS } from './jsonValue';
+
+/**
+ * A single step in a path: an object key or an array index
+ */
+export type PathSegment = string | number;
+
+/**
+ * Formats path segments using the node's dot notation (e.g. "Records.0.body")
+ * @param segments - Keys and indices from the root to the value
+ * @returns Dot-notation path
+ */
+export function formatFieldPath(segments: PathSegment[]): string {
+	return segments.map(String).join('.');
+}
+
+/**
+ * Checks whether a location matches a dot-notation pattern, where "*" matches any single key or index
+ * @param pattern - Pattern such as "body.Message" or "Records.*.body"
+ * @param segments - Keys and indices from the root to the value
+ * @returns True if every segment matches
+ */
+export function matchesFieldPath(pattern: string, segments: PathSegment[]): boolean {
+	const parts = pattern.split('.');
+
+	return (
+		parts.length === segments.length &&
+		parts.every((part, index) => part === '*' || part === String(segments[index]))
+	);
+}
+
+/**
+ * A parsed Input Field segment: a literal key (array indices are numeric keys) or a wildcard
+ */
+export type FieldPathToken = { type: 'key'; key: string } | { type: 'wildcard' };
+
+/**
+ * A value found at a concrete location
+ */
+export interface FieldMatch {
+	path: PathSegment[];
+	value: unknown;
+}
+
+/**
+ * Values selected by a field path
+ */
+export interface FieldPathResolution {
+	/** Every non-null value the path selects, in document order */
+	matches: FieldMatch[];
+	/** The object or array the first wildcard iterates over (wildcard paths only) */
+	wildcardScope?: FieldMatch & { value: object };
+	/** Branches below a wildcard that were skipped because they do not contain the rest of the path */
+	skippedBranches?: number;
+}
+
+/**
+ * Parses a field path written in dot and bracket notation, e.g. `body.content`,
+ * `items[0].body`, `items[*].payload` or `headers["x.request.id"]`
+ * @param fieldPath - The field path to parse
+ * @returns Parsed segments
+ * @throws Error if the path is empty or malformed
+ */
+export function parseFieldPath(fieldPath: string): FieldPathToken[] {
+	const fail = (reason: string): never => {
+		throw new Error(`Field path '${fieldPath}' is invalid: ${reason}`);
+	};
+	const tokens: FieldPathToken[] = [];
+	let position = 0;
+	let afterDot = false;
+
+	while (position < fieldPath.length) {
+		if (fieldPath[position] === '[' && !afterDot) {
+			const close = readBracketSegment(fieldPath, position, tokens);
+			if (close === -1) fail(`unsupported bracket segment at position ${position}`);
+			position = close;
+		} else {
+			let end = position;
+			while (end < fieldPath.length && fieldPath[end] !== '.' && fieldPath[end] !== '[') end++;
+			const key = fieldPath.slice(position, end);
+			if (key === '') fail(`empty segment at position ${position}`);
+			tokens.push(key === '*' ? { type: 'wildcard' } : { type: 'key', key });
+			position = end;
+		}
+
+		afterDot = fieldPath[position] === '.';
+		if (afterDot) {
+			position++;
+		} else if (position < fieldPath.length && fieldPath[position] !== '[') {
+			fail(`unexpected '${fieldPath[position]}' at position ${position}`);
+		}
+	}
+
+	if (tokens.length === 0 || afterDot) fail('empty segment at the end of the path');
+	return tokens;
+}
+
+/**
+ * Reads a `[*]`, `[0]`, `["key"]` or `['key']` segment and appends its token
+ * @param fieldPath - The field path being parsed
+ * @param start - Offset of the opening bracket
+ * @param tokens - Token list to append to
+ * @returns Offset just past the closing bracket, or -1 if the segment is malformed
+ */
+function readBracketSegment(fieldPath: string, start: number, tokens: FieldPathToken[]): number {
+	const quote = fieldPath[start + 1];
+
+	if (quote === '"' || quote === "'") {
+		let key = '';
+		for (let i = start + 2; i < fieldPath.length; i++) {
+			if (fieldPath[i] === '\\' && i + 1 < fieldPath.length) {
+				key += fieldPath[++i];
+			} else if (fieldPath[i] === quote) {
+				if (fieldPath[i + 1] !== ']') return -1;
+				tokens.push({ type: 'key', key });
+				return i + 2;
+			} else {
+				key += fieldPath[i];
+			}
+		}
+		return -1;
+	}
+
+	const close = fieldPath.indexOf(']', start);
+	const content = close === -1 ? '' : fieldPath.slice(start + 1, close);
+
+	if (content === '*') {
+		tokens.push({ type: 'wildcard' });
+	} else if (/^\d+$/.test(content)) {
+		tokens.push({ type: 'key', key: content });
+	} else {
+		return -1;
+	}
+
+	return close + 1;
+}
+
+/**
+ * Collects the values a field path selects. Paths without wildcards must resolve through
+ * objects all the way down; below a wildcard, branches that do not contain the rest of the path are skipped
+ * and counted. A wildcard over an empty array or object selects nothing without skipping anything.
+ * @param root - The value to search (usually the item's JSON)
+ * @param fieldPath - Field path in dot and bracket notation
+ * @returns The matched values and, for wildcard paths, the scope the first wildcard iterates over
+ * @throws Error if the path is malformed or a non-wildcard path crosses a missing or primitive value
+ */
+export function resolveFieldPath(root: unknown, fieldPath: string): FieldPathResolution {
+	const tokens = parseFieldPath(fieldPath);
+	const resolution: FieldPathResolution = { matches: [] };
+
+	const walk = (current: unknown, index: number, path: PathSegment[]): void => {
+		const skip = (): void => {
+			resolution.skippedBranches = (resolution.skippedBranches ?? 0) + 1;
+		};
+
+		if (index === tokens.length) {
+			if (current !== undefined && current !== null) {
+				resolution.matches.push({ path, value: current });
+			} else if (resolution.wildcardScope) {
+				skip();
+			}
+			return;
+		}
+
+		if (typeof current !== 'object' || current === null) {
+			if (resolution.wildcardScope) return skip();
+			const reason = current === undefined || current === null ? `resolves to ${current}` : 'is not an object';
+			throw new Error(`Field path '${fieldPath}' is invalid: '${formatFieldPath(path)}' ${reason}`);
+		}
+
+		const token = tokens[index];
+		if (token.type === 'wildcard') {
+			resolution.wildcardScope ??= { path, value: current };
+			const entries: Array<[PathSegment, unknown]> = Array.isArray(current)
+				? current.map((value, position) => [position, value])
+				: Object.entries(current);
+			for (const [segment, value] of entries) walk(value, index + 1, [...path, segment]);
+			return;
+		}
+
+		const segment = Array.isArray(current) && /^\d+$/.test(token.key) ? Number(token.key) : token.key;
+		walk((current as Record<string, unknown>)[token.key], index + 1, [...path, segment]);
+	};
+
+	walk(root, 0, []);
+	return resolution;
+}
+
+/**
+ * Sets a value at a location inside an object or array, creating empty objects for missing
+ * or null intermediate values
+ * @param target - The object or array to modify
+ * @param segments - Keys and indices from the target to the value (at least one)
+ * @param value - The value to store
+ * @throws SanitizerError of type FIELD_EXTRACTION_ERROR if a segment is a prototype key or an
+ * intermediate value is a primitive, which would otherwise be overwritten
+ */
+export function setFieldValue(target: object, segments: PathSegment[], value: unknown): void {
+	const fieldPath = formatFieldPath(segments);
+	const blocked = segments.find((segment) => PROTOTYPE_KEYS.includes(String(segment)));
+	if (blocked !== undefined) {
+		throw new SanitizerError(
+			`Cannot write to '${fieldPath}': '${blocked}' is not allowed in a field path`,
+			'FIELD_EXTRACTION_ERROR',
+			{ fieldPath },
+		);
+	}
+
+	let current = target as Record<PathSegment, unknown>;
+
+	for (let index = 0; index < segments.length - 1; index++) {
+		const segment = segments[index];
+		const next = current[segment];
+		if (next === undefined || next === null) {
+			current[segment] = {};
+		} else if (typeof next !== 'object') {
+			throw new SanitizerError(
+				`Cannot write to '${fieldPath}': '${formatFieldPath(segments.slice(0, index + 1))}' is a ${typeof next}`,
+				'FIELD_EXTRACTION_ERROR',
+				{ fieldPath },
+			);
+		}
+		current = current[segment] as Record<PathSegment, unknown>;
+	}
+
+	current[segments[segments.length - 1]] = value;
+}
@@ -0,0 +1,26 @@
+/**
+ * Helpers for inspecting parsed JSON values
+ */
+
+/**
+ * Keys that can reach Object.prototype when a value is merged or assigned into another object
+ */
+export const PROTOTYPE_KEYS: readonly string[] = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Checks whether a value is a plain JSON object
+ * @param value - The value to check
+ * @returns True for non-null, non-array objects
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Escapes a single JSON Pointer reference token (RFC 6901)
+ * @param token - Property name or array index
+ * @returns Escaped token
+ */
+export function escapePointer(token: string | number): string {
+	return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
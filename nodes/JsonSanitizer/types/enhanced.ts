@@ -2,15 +2,96 @@
  * Additional type definitions for enhanced type safety
  */
 
+/**
+ * Categories of processing errors reported by the node
+ */
+export type ProcessingErrorType =
+	| 'JSON_SANITIZATION_ERROR'
+	| 'FIELD_EXTRACTION_ERROR'
+	| 'VALIDATION_ERROR'
+	| 'SAFETY_LIMIT_ERROR';
+
+/**
+ * Single JSON Schema violation found while validating a parsed value
+ */
+export interface SchemaViolation {
+	/** JSON Pointer to the offending value (empty string for the root) */
+	instancePath: string;
+	/** JSON Pointer to the schema keyword that failed */
+	schemaPath: string;
+	keyword: string;
+	message: string;
+}
+
+/**
+ * Change made to a parsed value so that it matches a JSON Schema
+ */
+export interface SchemaCoercion {
+	/** JSON Pointer to the changed value (empty string for the root) */
+	instancePath: string;
+	/**
+	 * coerceType: converted to a declared type; matchEnum: replaced by the enum value that differs
+	 * only in case; formatDate: rewritten in the declared date format; fillDefault: missing property
+	 * set to its default; removeProperty: undeclared property removed
+	 */
+	action: 'coerceType' | 'matchEnum' | 'formatDate' | 'fillDefault' | 'removeProperty';
+	/** Value before the change (absent for filled defaults) */
+	from?: unknown;
+	/** Value after the change (absent for removed properties) */
+	to?: unknown;
+}
+
+/**
+ * Object key that appeared more than once in the same object
+ */
+export interface DuplicateKey {
+	/** Dot-notation path of the key */
+	path: string;
+	/** How many times the key appeared */
+	occurrences: number;
+}
+
 /**
  * Comprehensive error information for failed processing
  */
 export interface ProcessingError {
 	message: string;
 	itemIndex: number;
-	type: 'JSON_SANITIZATION_ERROR' | 'FIELD_EXTRACTION_ERROR' | 'VALIDATION_ERROR';
+	type: ProcessingErrorType;
 	originalInput?: unknown;
 	fieldPath?: string;
+	violations?: SchemaViolation[];
+	duplicateKeys?: DuplicateKey[];
+	/** Where the cleaned input stopped being valid JSON */
+	parseError?: ParseErrorLocation;
+	/** Error raised by each parser tier that was tried, in order */
+	tierErrors?: ParserTierError[];
+}
+
+/**
+ * Location of the first syntax error in JSON text
+ */
+export interface ParseErrorLocation {
+	/** Offset of the offending character in the cleaned input */
+	offset: number;
+	/** Line number, starting at 1 */
+	line: number;
+	/** Column, starting at 1 */
+	column: number;
+	/** What would have been valid at the offset, such as "',' or '}'" */
+	expected: string;
+	/** What was found instead, such as "'o'" or "end of input" */
+	found: string;
+	/** The surrounding lines, with the line of the error marked by ">" and a caret under the column */
+	snippet: string;
+}
+
+/**
+ * Error raised by one parser tier
+ */
+export interface ParserTierError {
+	tier: ParserTier;
+	message: string;
 }
 
 /**
@@ -22,15 +103,80 @@ export interface EnhancedProcessingResult {
 	error?: ProcessingError;
 }
 
+/**
+ * Cleaning steps applied to string input before parsing
+ */
+export type SanitizationStep =
+	| 'extractEmbeddedJSON'
+	| 'removeBOM'
+	| 'trimWhitespace'
+	| 'removeMarkdownFences'
+	| 'normalizeTypography'
+	| 'handleDoublyEscapedJSON'
+	| 'removeTrailingCommas'
+	| 'removeComments'
+	| 'normalizeLineEndings'
+	| 'convertPythonLiteral'
+	| 'convertJsLiteral';
+
+/**
+ * Parser tiers tried in order until one produces valid JSON
+ */
+export type ParserTier = 'native' | 'controlCharacters' | 'truncation' | 'jsonrepair' | 'basic';
+
 /**
  * JSON repair metadata for repair mode
  */
 export interface RepairMetadata {
 	wasRepaired: boolean;
-	repairMethod: 'jsonrepair' | 'basic' | 'sanitization' | 'none';
+	repairMethod: 'jsonrepair' | 'basic' | 'truncation' | 'sanitization' | 'none';
 	originalLength: number;
 	repairedLength: number;
+	/** Errors raised by each parser tier that failed before one succeeded */
 	errorsFound: string[];
+	/** Cleaning steps that actually changed the string, in order */
+	stepsApplied: SanitizationStep[];
+	/** Parser tier that finally produced valid JSON */
+	parserTier: ParserTier;
+	/** Error JSON.parse reported for the untouched input, if it was invalid */
+	originalParseError?: string;
+	/** What the repair changed, when requested */
+	diff?: RepairDiff;
+}
+
+/**
+ * Replacement of a span of the original input
+ */
+export interface TextEdit {
+	/** Offset of the first replaced character in the original input */
+	start: number;
+	/** Offset just past the last replaced character (equal to start for insertions) */
+	end: number;
+	removed: string;
+	inserted: string;
+}
+
+/**
+ * Single RFC 6902 JSON Patch operation
+ */
+export interface JsonPatchOperation {
+	op: 'add' | 'remove' | 'replace';
+	/** JSON Pointer of the target location (empty string for the root) */
+	path: string;
+	value?: unknown;
+}
+
+/**
+ * Structured description of a repair
+ */
+export interface RepairDiff {
+	/** Character edits that turn the original input into the repaired string */
+	edits: TextEdit[];
+	/**
+	 * Operations that turn the part of the input that could be read as JSON into the repaired
+	 * value; absent if no part of it could be read
+	 */
+	patch?: JsonPatchOperation[];
 }
 
 import { INodeExecutionData } from 'n8n-workflow';
\ No newline at end of file
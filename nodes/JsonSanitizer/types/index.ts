@@ -3,6 +3,14 @@
  */
 
 import { INodeExecutionData } from 'n8n-workflow';
+import {
+	DuplicateKey,
+	ParserTier,
+	ProcessingError,
+	RepairMetadata,
+	SanitizationStep,
+	SchemaCoercion,
+} from './enhanced';
 
 /**
  * Result of JSON sanitization operation
@@ -13,17 +21,309 @@ export interface SanitizeResult {
 	original: unknown;
 	wasAlreadyParsed: boolean;
 	wasRepaired?: boolean;
+	/** Whether the input ended inside an object or array and was completed */
+	wasTruncated?: boolean;
+	/** What was left incomplete in truncated input */
+	truncation?: TruncationReport;
+	extraction?: ExtractionInfo;
+	repairMetadata?: RepairMetadata;
+	/** Paths of string fields that held stringified JSON and were expanded (deep decoding only) */
+	expandedPaths?: string[];
+	/** Paths of numbers kept as strings to preserve their digits (lossless number mode only) */
+	preservedNumberPaths?: string[];
+	/** Keys that appeared more than once in the same object (duplicate detection only) */
+	duplicateKeys?: DuplicateKey[];
+	/** Paths of prototype-polluting keys that were removed (strip policy only) */
+	strippedKeys?: string[];
+	/** Typographic characters and string values that were normalized */
+	typography?: TypographyReport;
+	/** SHA-256 digest of the canonical (RFC 8785) form of the parsed value */
+	fingerprint?: string;
+	/** Changes made to match the JSON Schema, in document order (schema coercion only) */
+	coercions?: SchemaCoercion[];
+}
+
+/**
+ * What was incomplete in input that ended early
+ */
+export interface TruncationReport {
+	/**
+	 * Paths of the objects and arrays that were still open, outermost first ("" is the root); only
+	 * the 100 outermost are listed
+	 */
+	incompletePaths: string[];
+	/**
+	 * Whether the input ended inside a string, number or literal, whose value may therefore be cut
+	 * short or was finished by the completer
+	 */
+	lastValuePartial: boolean;
+	/** Path of the value that may be cut short */
+	lastValuePath?: string;
+	/**
+	 * Path of the entry that was removed because the input ended before its value: a partial key,
+	 * a key without a value, or a value that could not be recovered
+	 */
+	droppedPath?: string;
+}
+
+/**
+ * A character replaced or removed by typography normalization
+ */
+export interface CharacterReplacement {
+	character: string;
+	/** Code point of the character, such as "U+201C" */
+	codePoint: string;
+	/** What the character was replaced with (empty when it was removed) */
+	replacement: string;
+	count: number;
+}
+
+/**
+ * What typography normalization changed
+ */
+export interface TypographyReport {
+	/** Characters replaced outside string literals, in order of first appearance */
+	replacements: CharacterReplacement[];
+	/** Paths of string values changed by Unicode normalization or invisible character removal */
+	normalizedPaths: string[];
+}
+
+/**
+ * Layout of the cleaned string:
+ * - preserve: the cleaned input text (or 2-space JSON.stringify output for object input)
+ * - pretty: re-serialized with indentation
+ * - minified: re-serialized without whitespace
+ * - canonical: RFC 8785 JSON Canonicalization Scheme
+ */
+export type StringFormat = 'preserve' | 'pretty' | 'minified' | 'canonical';
+
+/**
+ * Formatting of the cleaned string
+ */
+export interface FormatOptions {
+	style: StringFormat;
+	/** Spaces per level, or 'tab' (pretty only, defaults to 2) */
+	indent?: number | 'tab';
+	/** Sort object keys (pretty and minified only; canonical output is always sorted) */
+	sortKeys?: boolean;
+	/** Escape every non-ASCII character as \uXXXX (pretty and minified only) */
+	asciiOnly?: boolean;
+}
+
+/**
+ * Unicode normalization form applied to string values
+ */
+export type UnicodeNormalization = 'none' | 'NFC' | 'NFKC';
+
+/**
+ * Normalizations applied to string values after parsing
+ */
+export interface StringValueOptions {
+	/** Unicode normalization form (defaults to 'none') */
+	unicodeForm?: UnicodeNormalization;
+	/** Remove zero-width spaces, soft hyphens and other invisible characters */
+	stripInvisible?: boolean;
+}
+
+/**
+ * How to pick a JSON document out of surrounding prose
+ */
+export type ExtractionStrategy = 'none' | 'first' | 'largest' | 'last';
+
+/**
+ * Details about the JSON document extracted from surrounding text
+ */
+export interface ExtractionInfo {
+	strategy: ExtractionStrategy;
+	/** Whether the document came from a markdown fence or a balanced bracket scan */
+	source: 'fence' | 'balanced';
+	/** Character offset of the extracted document in the original input */
+	start: number;
+	/** Character offset just past the extracted document */
+	end: number;
+	/** Number of JSON-looking regions found in the input */
+	candidates: number;
+}
+
+/**
+ * Settings for recursive decoding of nested stringified JSON
+ */
+export interface DeepDecodeOptions {
+	/** How many levels of stringified JSON to expand */
+	maxDepth: number;
+	/** Dot-notation patterns ("*" matches any key or index) limiting which fields are decoded; empty for all */
+	paths: string[];
+}
+
+/**
+ * Syntax of string input:
+ * - json: JSON, cleaned and repaired as configured
+ * - python: a Python literal (repr() output) converted to JSON before parsing
+ * - json5: a JSON5 / JavaScript object literal converted to JSON before parsing
+ * - auto: input that is not valid JSON is converted when it parses as a Python or JavaScript literal
+ */
+export type InputDialect = 'json' | 'python' | 'json5' | 'auto';
+
+/**
+ * How JavaScript values without a JSON equivalent are mapped by the JSON5 dialect
+ */
+export interface SpecialValuePolicy {
+	/** NaN and ±Infinity become null, a string such as "-Infinity", or an error */
+	nonFiniteNumbers: 'null' | 'string' | 'error';
+	/** undefined becomes null, or the key is omitted (array entries always become null) */
+	undefinedValues: 'null' | 'omit';
+}
+
+/**
+ * How repeated keys in one object are resolved:
+ * - first: keep the first value
+ * - last: keep the last value, as JSON.parse does
+ * - array: collect every value into an array
+ * - error: fail with a validation error
+ */
+export type DuplicateKeyPolicy = 'first' | 'last' | 'array' | 'error';
+
+/**
+ * Limits on untrusted input; a limit of 0 is not enforced
+ */
+export interface SafetyLimits {
+	/** Largest accepted string or binary input, in bytes */
+	maxInputBytes: number;
+	/** Deepest accepted nesting of objects and arrays (the root is level 1) */
+	maxDepth: number;
+	/** Most keys accepted in a single object */
+	maxKeys: number;
+	/** Most items accepted in a single array */
+	maxArrayLength: number;
+}
+
+/**
+ * What happens to prototype keys: only __proto__ removed, __proto__, constructor and prototype
+ * removed, or the input fails on any of the three
+ */
+export type PrototypeKeyPolicy = 'stripProto' | 'strip' | 'reject';
+
+/**
+ * Repair strictness levels:
+ * - strict: only lossless cleanups; anything that needs jsonrepair or basic repair fails
+ * - tolerant: lossless cleanups plus repair fallbacks
+ * - aggressive: tolerant plus automatic extraction of JSON from surrounding prose
+ */
+export type Strictness = 'strict' | 'tolerant' | 'aggressive';
+
+/**
+ * Options controlling how JsonSanitizationService processes string input
+ */
+export interface SanitizeOptions {
+	extraction?: ExtractionStrategy;
+	/** How far the service may go to turn the input into JSON (defaults to 'tolerant') */
+	strictness?: Strictness;
+	/** Keep integers above 2^53 and high-precision decimals as strings instead of rounding them */
+	losslessNumbers?: boolean;
+	/** Syntax of string input (defaults to 'json') */
+	dialect?: InputDialect;
+	/** Mapping of NaN, Infinity and undefined in the JSON5 dialect (defaults to JSON.stringify's: null and omitted) */
+	specialValues?: Partial<SpecialValuePolicy>;
+	/** Detect repeated object keys and resolve them with this policy (no detection when undefined) */
+	duplicateKeys?: DuplicateKeyPolicy;
+	/** Size and shape limits (limits that are omitted are not enforced) */
+	limits?: Partial<SafetyLimits>;
+	/** Handling of prototype-polluting keys (left alone when undefined) */
+	prototypeKeys?: PrototypeKeyPolicy;
+	/** Formatting of the cleaned string (defaults to 'preserve') */
+	format?: FormatOptions;
+	/** Add the SHA-256 fingerprint of the canonical form to the result */
+	fingerprint?: boolean;
+	/** Add the edit spans and JSON Patch of the repair to the repair metadata */
+	diff?: boolean;
+	/** Coerce the parsed value to a JSON Schema (off when undefined) */
+	coercion?: SchemaCoercionOptions;
+	/** Normalizations applied to parsed string values (off when undefined) */
+	stringValues?: StringValueOptions;
+	/** Cleaning steps to skip (steps not listed run as usual) */
+	steps?: Partial<Record<SanitizationStep, boolean>>;
+	/** Decode string fields holding stringified JSON (off when undefined) */
+	deepDecode?: DeepDecodeOptions;
+	/** Parser fallback tiers to skip (the native JSON.parse tier always runs) */
+	parserTiers?: Partial<Record<Exclude<ParserTier, 'native'>, boolean>>;
+}
+
+/**
+ * Settings for coercing parsed values to a JSON Schema
+ */
+export interface SchemaCoercionOptions {
+	/** The JSON Schema (an object or a boolean) */
+	schema: unknown;
+	/** Remove properties that the schema does not declare */
+	removeAdditional?: boolean;
 }
 
 /**
  * Node configuration parameters
  */
 export interface NodeParameters {
+	operation: Operation;
+	inputSource: InputSource;
 	inputField: string;
+	binaryProperty: string;
+	binaryEncoding: BinaryEncoding;
 	outputMode: 'parsed' | 'string' | 'both' | 'repair';
+	outputTarget: OutputTarget;
+	outputPlacement: OutputPlacement;
 	outputField: string;
+	outputBinaryProperty: string;
+	outputFileName: string;
+	outputFileFormat: FileFormat;
+	extractionMode: ExtractionStrategy;
+	inputMode: InputMode;
 	keepOriginal: boolean;
-	errorHandling: 'stop' | 'continue';
+	errorHandling: ErrorHandlingMode;
+	validateSchema: boolean;
+	jsonSchema: string | object;
+	coerceToSchema: boolean;
+	removeAdditionalProperties: boolean;
+	options: NodeOptions;
+}
+
+/**
+ * Optional settings from the node's "Options" collection
+ */
+export interface NodeOptions {
+	strictness?: Strictness;
+	inputDialect?: InputDialect;
+	losslessNumbers?: boolean;
+	nonFiniteNumbers?: SpecialValuePolicy['nonFiniteNumbers'];
+	undefinedValues?: SpecialValuePolicy['undefinedValues'];
+	duplicateKeys?: DuplicateKeyPolicy;
+	maxInputBytes?: number;
+	maxNestingDepth?: number;
+	maxKeysPerObject?: number;
+	maxArrayLength?: number;
+	prototypeKeys?: PrototypeKeyPolicy;
+	decodeNested?: boolean;
+	maxDecodeDepth?: number;
+	decodePaths?: string;
+	removeBOM?: boolean;
+	trimWhitespace?: boolean;
+	removeMarkdownFences?: boolean;
+	normalizeTypography?: boolean;
+	stringFormat?: StringFormat;
+	indentWidth?: number;
+	indentWithTabs?: boolean;
+	sortKeys?: boolean;
+	escapeNonAscii?: boolean;
+	includeFingerprint?: boolean;
+	includeRepairDiff?: boolean;
+	unicodeNormalization?: UnicodeNormalization;
+	stripInvisibleCharacters?: boolean;
+	handleDoublyEscapedJSON?: boolean;
+	removeTrailingCommas?: boolean;
+	removeComments?: boolean;
+	normalizeLineEndings?: boolean;
+	escapeControlCharacters?: boolean;
+	useJsonRepair?: boolean;
+	useBasicRepair?: boolean;
+	completeTruncated?: boolean;
 }
 
 /**
@@ -33,6 +333,8 @@ export interface ProcessingContext {
 	item: INodeExecutionData;
 	itemIndex: number;
 	parameters: NodeParameters;
+	/** Location of the input field in the item (the wildcard scope for wildcard paths) */
+	inputPath?: Array<string | number>;
 }
 
 /**
@@ -41,18 +343,58 @@ export interface ProcessingContext {
 export interface ProcessingResult {
 	success: boolean;
 	data?: INodeExecutionData;
-	error?: {
-		message: string;
-		itemIndex: number;
-	};
+	error?: ProcessingError;
+	/** Position of the document within a multi-document input */
+	documentIndex?: number;
+	/** The sanitized value that was written to the output */
+	value?: unknown;
 }
 
+/**
+ * What the node does: sanitize every item, or infer one schema describing all of them
+ */
+export type Operation = 'sanitize' | 'inferSchema';
+
 /**
  * Output modes for the sanitized JSON
  */
 export type OutputMode = 'parsed' | 'string' | 'both' | 'repair';
 
 /**
- * Error handling modes
+ * Whether the result is written into the item's JSON or as a binary file
+ */
+export type OutputTarget = 'json' | 'binary';
+
+/**
+ * Content format of binary file output
+ */
+export type FileFormat = 'pretty' | 'minified' | 'ndjson';
+
+/**
+ * Where the output is written in the result item:
+ * - field: at the Output Field path (dot notation creates nested objects)
+ * - replaceInput: in place of the input field
+ * - mergeRoot: the output object's keys are spread onto the item root
+ * - deepMerge: recursively merged into the object at the Output Field path
+ */
+export type OutputPlacement = 'field' | 'replaceInput' | 'mergeRoot' | 'deepMerge';
+
+/**
+ * Where the input is read from: a field of the item's JSON or one of its binary properties
+ */
+export type InputSource = 'json' | 'binary';
+
+/**
+ * Text encodings for binary input; 'auto' detects the encoding from the BOM or byte pattern
+ */
+export type BinaryEncoding = 'auto' | 'utf8' | 'utf16le' | 'utf16be' | 'latin1';
+
+/**
+ * Whether an input value holds one JSON document or several (NDJSON, concatenated values, fenced blocks)
+ */
+export type InputMode = 'single' | 'multiple';
+
+/**
+ * Error handling modes ('output' routes failed items to the second output, node version 2 only)
  */
-export type ErrorHandlingMode = 'stop' | 'continue';
\ No newline at end of file
+export type ErrorHandlingMode = 'stop' | 'continue' | 'output';
\ No newline at end of file